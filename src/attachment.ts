@@ -0,0 +1,279 @@
+import AdmZip from 'adm-zip';
+import cheerio from 'cheerio';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { defaultClient, TarjouspalveluClient } from './client';
+import { NetworkError, SessionExpiredError } from './errors';
+import {
+    AttachmentDownload,
+    AttachmentLinks,
+    AttachmentStream,
+    ClientStreamResponse,
+    ResponseHeaders,
+    SaveAttachmentsOptions,
+    SavedAttachments,
+    Session,
+} from './interfaces';
+import { getHeader } from './utilities';
+
+/**
+ * Parse the file attachments and links of a notice, dynamic purchasing system or supplier register, without fetching anything
+ *
+ * @param html - HTML of the page that lists them, which is the attachments page (TarjousPyyntoLiitteet.aspx) of a notice or dynamic purchasing system, and the page of a supplier register
+ *
+ * @returns The file attachments and the links of the page
+ */
+export const parseAttachmentLinks = (html: string): AttachmentLinks => {
+    const $ = cheerio.load(html);
+
+    return {
+        attachments: $('a[id*="TiedostoLinkki"]') // Filter to get only the file links from the page - ESPD is not needed as it is not a file per se
+            .map((_i, el) => ({
+                fileName: $(el).text(),
+                fileUuid: $(el).attr('href')?.replace(
+                    '../Document/Open/?fileType=TarjPyynTied&id=', // Replace the URL portion to get only the UUID
+                    ''
+                ),
+            }))
+            .get(),
+
+        links: $('a[id*="HyperLink1"]') // Filter to get only the links from the page
+            .map((_i, el) => $(el).attr('href'))
+            .get(),
+    };
+};
+
+/**
+ * Get the file name of a download from its Content-Disposition header
+ *
+ * @param headers  - The headers of the download response
+ * @param fallback - The file name to use if the header doesn't include one
+ *
+ * @returns The file name of the download
+ */
+const fileNameFromHeaders = (
+    headers: ResponseHeaders,
+    fallback: string
+): string => {
+    const disposition = getHeader(headers, 'content-disposition') ?? '';
+
+    // Prefer the RFC 5987 encoded name, which keeps the Finnish characters intact
+    const encoded = disposition.match(/filename\*=(?:UTF-8|utf-8)''([^;]+)/);
+    if (encoded) return decodeURIComponent(encoded[1]);
+
+    const plain = disposition.match(/filename="?([^";]+)"?/);
+    if (plain) return plain[1].trim();
+
+    return fallback;
+};
+
+/**
+ * Start a download with the logged in session, checking that the session was accepted
+ *
+ * @param operation - Name of the operation the file is downloaded for, given to the hooks of the client
+ * @param filePath  - The path of the file to download on the site
+ * @param session   - The session to download the file with
+ * @param fallback  - The file name to use if the response doesn't include one
+ * @param client    - The client to send the request with
+ *
+ * @returns The download as a stream, with the file name and content type
+ */
+const startDownload = async (
+    operation: string,
+    filePath: string,
+    session: Session,
+    fallback: string,
+    client: TarjouspalveluClient
+): Promise<AttachmentStream> => {
+    const response: ClientStreamResponse = await client.requestStream({
+        operation,
+        path: filePath,
+        session,
+        headers: {
+            Cookie: `ASP.NET_SessionId_TP=${session.id}; TarjPalv=${session.token};`,
+        },
+    });
+
+    if (response.status !== 200) response.stream.destroy(); // Nothing will read the body, so release the connection
+
+    if (response.status === 302)
+        throw new SessionExpiredError(
+            'Failed to download attachment, bad session?',
+            response.url
+        );
+    else if (response.status !== 200)
+        throw new NetworkError(
+            'Failed to download attachment',
+            response.status,
+            response.url
+        );
+
+    return {
+        fileName: fileNameFromHeaders(response.headers, fallback),
+        contentType:
+            getHeader(response.headers, 'content-type') ??
+            'application/octet-stream',
+        stream: response.stream,
+    };
+};
+
+/**
+ * Read a download stream fully into a Buffer
+ *
+ * @param download - The download to read
+ *
+ * @returns The download with its contents in a Buffer
+ */
+const readDownload = async (
+    download: AttachmentStream
+): Promise<AttachmentDownload> => {
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of download.stream) chunks.push(Buffer.from(chunk));
+
+    return {
+        fileName: download.fileName,
+        contentType: download.contentType,
+        data: Buffer.concat(chunks),
+    };
+};
+
+/**
+ * Download a single file attachment of a notice as a stream
+ *
+ * @param fileUuid - The UUID of the file to download
+ * @param session  - The session to download the file with. **MUST be logged in.**
+ * @param client   - The client to send the requests with. Defaults to the default client.
+ *
+ * @returns The file as a stream, with the file name and content type from the response headers
+ */
+export const streamAttachment = (
+    fileUuid: string,
+    session: Session,
+    client: TarjouspalveluClient = defaultClient
+): Promise<AttachmentStream> =>
+    startDownload(
+        'downloadAttachment',
+        `/Document/Open/?fileType=TarjPyynTied&id=${fileUuid}`,
+        session,
+        fileUuid,
+        client
+    );
+
+/**
+ * Download a single file attachment of a notice
+ *
+ * @param fileUuid - The UUID of the file to download
+ * @param session  - The session to download the file with. **MUST be logged in.**
+ * @param client   - The client to send the requests with. Defaults to the default client.
+ *
+ * @returns The file in a Buffer, with the file name and content type from the response headers
+ */
+export const downloadAttachment = async (
+    fileUuid: string,
+    session: Session,
+    client: TarjouspalveluClient = defaultClient
+): Promise<AttachmentDownload> =>
+    readDownload(await streamAttachment(fileUuid, session, client));
+
+/**
+ * Download all file attachments of a notice in a ZIP file as a stream
+ *
+ * @param noticeId - The ID of the notice containing the file attachments
+ * @param session  - The session to download the files with. **MUST be logged in.**
+ * @param client   - The client to send the requests with. Defaults to the default client.
+ *
+ * @returns The ZIP file as a stream, with the file name and content type from the response headers
+ */
+export const streamAllAttachments = (
+    noticeId: number,
+    session: Session,
+    client: TarjouspalveluClient = defaultClient
+): Promise<AttachmentStream> =>
+    startDownload(
+        'downloadAllAttachments',
+        `/Zip/TarjousPyynnonLiitteet/${noticeId.toString()}`,
+        session,
+        `${noticeId}.zip`,
+        client
+    );
+
+/**
+ * Download all file attachments of a notice in a ZIP file
+ *
+ * @param noticeId - The ID of the notice containing the file attachments
+ * @param session  - The session to download the files with. **MUST be logged in.**
+ * @param client   - The client to send the requests with. Defaults to the default client.
+ *
+ * @returns The ZIP file in a Buffer, with the file name and content type from the response headers
+ */
+export const downloadAllAttachments = async (
+    noticeId: number,
+    session: Session,
+    client: TarjouspalveluClient = defaultClient
+): Promise<AttachmentDownload> =>
+    readDownload(await streamAllAttachments(noticeId, session, client));
+
+/**
+ * Download all file attachments of a notice to a directory, either as the ZIP file or extracted from it
+ *
+ * @param noticeId  - The ID of the notice containing the file attachments
+ * @param session   - The session to download the files with. **MUST be logged in.**
+ * @param directory - The directory to write the files to. Created if it doesn't exist.
+ * @param options   - Whether to extract the ZIP file, and the attachments from `getNotice` to check the extracted files against
+ * @param client    - The client to send the requests with. Defaults to the default client.
+ *
+ * @returns The written files, and the attachments that were missing from the ZIP file or not listed in the notice
+ */
+export const saveAllAttachments = async (
+    noticeId: number,
+    session: Session,
+    directory: string,
+    options: SaveAttachmentsOptions = {},
+    client: TarjouspalveluClient = defaultClient
+): Promise<SavedAttachments> => {
+    const download = await downloadAllAttachments(noticeId, session, client);
+
+    await fs.mkdir(directory, { recursive: true });
+
+    if (!options.extract) {
+        const zipPath = path.join(directory, path.basename(download.fileName));
+
+        await fs.writeFile(zipPath, download.data);
+
+        return { zipPath, files: [zipPath], missing: [], unexpected: [] };
+    }
+
+    const root = path.resolve(directory);
+    const files: string[] = [];
+    const names: string[] = [];
+
+    for (const entry of new AdmZip(download.data).getEntries()) {
+        if (entry.isDirectory) continue;
+
+        const target = path.resolve(root, entry.entryName);
+
+        // Never write outside of the directory, even if the ZIP file has entries like ../file
+        if (!target.startsWith(root + path.sep)) continue;
+
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, entry.getData());
+
+        files.push(target);
+        names.push(path.basename(entry.entryName));
+    }
+
+    const expected = (options.attachments ?? []).map(
+        (attachment) => attachment.fileName
+    );
+
+    return {
+        zipPath: null,
+        files,
+        missing: expected.filter((name) => !names.includes(name)),
+        unexpected: options.attachments
+            ? names.filter((name) => !expected.includes(name))
+            : [],
+    };
+};
@@ -0,0 +1,101 @@
+import { createHash } from 'crypto';
+
+import {
+    CachedResponse,
+    CacheEndpoint,
+    ClientRequest,
+    ResponseCacheStore,
+} from './interfaces';
+
+/**
+ * How long the responses of each endpoint are cached by default, in milliseconds
+ */
+export const defaultCacheTtl: Record<CacheEndpoint, number> = {
+    [CacheEndpoint.Companies]: 60 * 60 * 1000,
+    [CacheEndpoint.CompanySlug]: 24 * 60 * 60 * 1000,
+    [CacheEndpoint.Notices]: 60 * 1000,
+};
+
+/**
+ * Response cache store that keeps the responses in memory, so they're lost when the process exits
+ */
+export class MemoryResponseCacheStore implements ResponseCacheStore {
+    private readonly entries = new Map<
+        string,
+        { response: CachedResponse; expires: number }
+    >();
+
+    /**
+     * @param maxEntries - The maximum number of responses to keep. The oldest ones are dropped first. Defaults to 1000.
+     */
+    constructor(readonly maxEntries = 1000) {}
+
+    async get(key: string): Promise<CachedResponse | undefined> {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+
+        if (entry.expires <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+
+        return entry.response;
+    }
+
+    async set(
+        key: string,
+        response: CachedResponse,
+        ttl: number
+    ): Promise<void> {
+        // Re-inserting moves the key to the end, so the first key is always the oldest
+        this.entries.delete(key);
+        this.entries.set(key, { response, expires: Date.now() + ttl });
+
+        while (this.entries.size > this.maxEntries)
+            this.entries.delete(this.entries.keys().next().value);
+    }
+
+    /**
+     * Remove all cached responses
+     */
+    clear(): void {
+        this.entries.clear();
+    }
+}
+
+/**
+ * Build the cache key of a request. Pages of a session are keyed by the session, its login and its language,
+ * so that they're never shared between sessions. The key is hashed so that the session ID isn't stored in it.
+ *
+ * @param endpoint - The endpoint of the request
+ * @param url      - The absolute URL of the request
+ * @param request  - The request
+ *
+ * @returns The cache key
+ */
+export const responseCacheKey = (
+    endpoint: CacheEndpoint,
+    url: string,
+    request: ClientRequest
+): string => {
+    const session = request.session
+        ? [
+              request.session.id,
+              request.session.token ?? '',
+              request.session.language ?? '',
+          ]
+        : [];
+
+    const hash = createHash('sha256')
+        .update(
+            JSON.stringify([
+                request.method ?? 'GET',
+                url,
+                request.data ?? '',
+                ...session,
+            ])
+        )
+        .digest('hex');
+
+    return `tarjouspalvelu:${endpoint}:${hash}`;
+};
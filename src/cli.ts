@@ -0,0 +1,408 @@
+#!/usr/bin/env node
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+
+import { saveAllAttachments } from './attachment';
+import { getCompanies, getNotices } from './company';
+import { Language, Session } from './interfaces';
+import { getNotice } from './notice';
+import { deserializeSession } from './session';
+import {
+    companySlugToId,
+    getSession,
+    loginToSession,
+    setSessionLanguage,
+} from './utilities';
+
+type Format = 'json' | 'table' | 'csv';
+
+interface Config {
+    slug?: string;
+    session?: Session;
+}
+
+interface Arguments {
+    positional: string[];
+    flags: Record<string, string | true>;
+}
+
+const usage = `Usage: tarjouspalvelu <command> [options]
+
+Commands:
+  companies                         List all companies
+  notices <slug|id>                 List the notices of a company
+  notice <companyId> <noticeId>     Show a single notice (requires login)
+  attachments <noticeId>            Download the attachments of a notice (requires login)
+  login <slug> <username>           Log in and store the session
+
+Options:
+  --lang fi|sv|en|da                Language of the results
+  --format json|table|csv           Output format, defaults to table
+  --out <directory>                 Directory for the attachments, defaults to the current directory
+  --extract                         Extract the attachments from the ZIP file
+  --config <file>                   Session file, defaults to ~/.config/tarjouspalvelu/session.json
+                                    or the TARJOUSPALVELU_CONFIG environment variable
+
+The password for login is read from the TARJOUSPALVELU_PASSWORD environment variable, asked for
+without echoing it, or read from the first line of stdin when it isn't a terminal.`;
+
+// Short language names accepted by --lang, in addition to the full locale names
+const languages: Record<string, Language> = {
+    fi: Language.Fi,
+    sv: Language.Sv,
+    en: Language.En,
+    da: Language.Da,
+};
+
+// Flags that take no value, so the argument after them stays positional
+const booleanFlags = ['extract'];
+
+// Any company works for requests that aren't tied to a company, such as setting the language
+const fallbackCompany = { id: 279, slug: 'hanki' };
+
+/**
+ * Parse the command line arguments into positional arguments and --flags
+ *
+ * @param argv - The arguments after the node and script paths
+ *
+ * @returns The parsed arguments
+ */
+const parseArguments = (argv: string[]): Arguments => {
+    const positional: string[] = [];
+    const flags: Record<string, string | true> = {};
+
+    for (let i = 0; i < argv.length; i++) {
+        const match = argv[i].match(/^--([^=]+)(?:=(.*))?$/);
+
+        if (!match) positional.push(argv[i]);
+        else if (match[2] !== undefined) flags[match[1]] = match[2];
+        else if (
+            !booleanFlags.includes(match[1]) &&
+            argv[i + 1] !== undefined &&
+            !argv[i + 1].startsWith('--')
+        )
+            flags[match[1]] = argv[++i];
+        else flags[match[1]] = true;
+    }
+
+    return { positional, flags };
+};
+
+const configPath = (args: Arguments): string =>
+    typeof args.flags.config === 'string'
+        ? args.flags.config
+        : process.env.TARJOUSPALVELU_CONFIG ??
+          path.join(os.homedir(), '.config', 'tarjouspalvelu', 'session.json');
+
+const readConfig = async (file: string): Promise<Config> => {
+    try {
+        const config: Config = JSON.parse(await fs.readFile(file, 'utf8'));
+
+        // Restore the timestamps of the session as dates
+        if (config.session)
+            config.session = deserializeSession(JSON.stringify(config.session));
+
+        return config;
+    } catch (error) {
+        if (error.code === 'ENOENT') return {};
+
+        throw error;
+    }
+};
+
+const writeConfig = async (file: string, config: Config): Promise<void> => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+
+    // The session token gives access to the account, so keep the file private
+    await fs.writeFile(file, JSON.stringify(config, null, 4), { mode: 0o600 });
+};
+
+/**
+ * Ask for a password without echoing it, or read it from the first line of stdin when it isn't a terminal
+ *
+ * @param question - The prompt to show
+ *
+ * @returns The password
+ */
+const askPassword = (question: string): Promise<string> => {
+    process.stderr.write(question);
+
+    if (!process.stdin.isTTY) {
+        const rl = readline.createInterface({ input: process.stdin });
+
+        return new Promise((resolve) => {
+            let answer = '';
+
+            rl.once('line', (line) => {
+                answer = line;
+                rl.close();
+            });
+            rl.once('close', () => resolve(answer));
+        });
+    }
+
+    const stdin = process.stdin;
+
+    return new Promise((resolve, reject) => {
+        let answer = '';
+
+        const finish = (error?: Error) => {
+            stdin.setRawMode(false);
+            stdin.pause();
+            stdin.removeListener('data', onData);
+            process.stderr.write('\n');
+
+            if (error) reject(error);
+            else resolve(answer);
+        };
+
+        const onData = (chunk: string) => {
+            for (const char of chunk) {
+                if (char === '\r' || char === '\n') return finish();
+                if (char === '\u0003') return finish(new Error('Cancelled'));
+
+                if (char === '\u007f' || char === '\b')
+                    answer = answer.slice(0, -1);
+                else answer += char;
+            }
+        };
+
+        stdin.setRawMode(true);
+        stdin.setEncoding('utf8');
+        stdin.on('data', onData);
+        stdin.resume();
+    });
+};
+
+/**
+ * Format a value of a row to a single line of text
+ *
+ * @param value - The value to format
+ *
+ * @returns The text of the value
+ */
+const formatValue = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date)
+        return isNaN(value.getTime()) ? '' : value.toISOString();
+    if (Array.isArray(value)) return value.map(formatValue).join(', ');
+    if (typeof value === 'object') return JSON.stringify(value);
+
+    return String(value).replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Print rows in the requested format
+ *
+ * @param rows   - The rows to print
+ * @param format - The format to print the rows in
+ */
+const print = (rows: Record<string, unknown>[], format: Format): void => {
+    if (format === 'json') {
+        console.log(JSON.stringify(rows, null, 4));
+        return;
+    }
+
+    const columns = Array.from(
+        new Set(
+            rows.reduce<string[]>(
+                (keys, row) => [...keys, ...Object.keys(row)],
+                []
+            )
+        )
+    );
+    const cells = rows.map((row) =>
+        columns.map((column) => formatValue(row[column]))
+    );
+
+    if (format === 'csv') {
+        const quote = (text: string) =>
+            /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+        for (const line of [columns, ...cells])
+            console.log(line.map(quote).join(','));
+        return;
+    }
+
+    const widths = columns.map((column, i) =>
+        Math.max(column.length, ...cells.map((line) => line[i].length))
+    );
+
+    for (const line of [columns, ...cells])
+        console.log(
+            line
+                .map((text, i) => text.padEnd(widths[i]))
+                .join('  ')
+                .replace(/\s+$/, '')
+        );
+};
+
+const run = async (argv: string[]): Promise<void> => {
+    const args = parseArguments(argv);
+    const [command, ...rest] = args.positional;
+
+    const format = (args.flags.format ?? 'table') as Format;
+    if (!['json', 'table', 'csv'].includes(format))
+        throw new Error(`Unknown format: ${format}`);
+
+    let language: Language | undefined;
+    if (typeof args.flags.lang === 'string') {
+        language =
+            languages[args.flags.lang] ??
+            Object.values(Language).find((value) => value === args.flags.lang);
+
+        if (!language) throw new Error(`Unknown language: ${args.flags.lang}`);
+    }
+
+    const file = configPath(args);
+    const config = await readConfig(file);
+
+    // Get the stored session, or a new anonymous one if there is none
+    const useSession = async (companyId: number, slug?: string) => {
+        const session =
+            config.session ??
+            (await getSession(slug ?? config.slug ?? fallbackCompany.slug));
+
+        if (language) await setSessionLanguage(companyId, language, session);
+
+        return session;
+    };
+
+    const requireLogin = () => {
+        if (!config.session?.token)
+            throw new Error('Not logged in, run tarjouspalvelu login first');
+    };
+
+    switch (command) {
+        case 'companies': {
+            print(
+                (await getCompanies()).map(({ id, slug, name }) => ({
+                    id,
+                    slug,
+                    name,
+                })),
+                format
+            );
+            return;
+        }
+
+        case 'notices': {
+            if (!rest[0]) break;
+
+            const slug = /^\d+$/.test(rest[0]) ? undefined : rest[0];
+            const companyId = slug
+                ? await companySlugToId(slug)
+                : parseInt(rest[0]);
+
+            const notices = await getNotices(
+                companyId,
+                await useSession(companyId, slug)
+            );
+
+            if (notices.supplierRegistersError)
+                console.error(
+                    `Failed to load the supplier registers: ${notices.supplierRegistersError.message}`
+                );
+
+            print(
+                [
+                    ...notices.notices.map((notice) => ({
+                        type: 'notice',
+                        ...notice,
+                    })),
+                    ...notices.dynamicPurchasingSystems.map((dps) => ({
+                        type: 'dynamicPurchasingSystem',
+                        ...dps,
+                    })),
+                    ...notices.supplierRegisters.map((register) => ({
+                        type: 'supplierRegister',
+                        ...register,
+                    })),
+                ].map((row) => ({
+                    type: row.type,
+                    id: row.id,
+                    customId: row.customId,
+                    unit: row.unit,
+                    title: row.title,
+                    deadline: row.originalDeadline,
+                    isBeingCorrected: row.isBeingCorrected,
+                })),
+                format
+            );
+            return;
+        }
+
+        case 'notice': {
+            if (!rest[0] || !rest[1]) break;
+            requireLogin();
+
+            const companyId = parseInt(rest[0]);
+            const notice = await getNotice(
+                companyId,
+                parseInt(rest[1]),
+                await useSession(companyId)
+            );
+
+            print(
+                format === 'json'
+                    ? [{ ...notice }]
+                    : Object.entries(notice).map(([field, value]) => ({
+                          field,
+                          value,
+                      })),
+                format
+            );
+            return;
+        }
+
+        case 'attachments': {
+            if (!rest[0]) break;
+            requireLogin();
+
+            const saved = await saveAllAttachments(
+                parseInt(rest[0]),
+                await useSession(fallbackCompany.id),
+                typeof args.flags.out === 'string' ? args.flags.out : '.',
+                { extract: args.flags.extract === true }
+            );
+
+            print(
+                saved.files.map((savedFile) => ({ file: savedFile })),
+                format
+            );
+            return;
+        }
+
+        case 'login': {
+            if (!rest[0] || !rest[1]) break;
+
+            const password =
+                process.env.TARJOUSPALVELU_PASSWORD ??
+                (await askPassword('Password: '));
+
+            const session = await loginToSession(rest[0], rest[1], password);
+
+            if (language)
+                await setSessionLanguage(
+                    await companySlugToId(rest[0]),
+                    language,
+                    session
+                );
+
+            await writeConfig(file, { slug: rest[0], session });
+
+            console.error(`Logged in, session stored in ${file}`);
+            return;
+        }
+    }
+
+    console.error(usage);
+    process.exitCode = 1;
+};
+
+run(process.argv.slice(2)).catch((error) => {
+    console.error(error.message);
+    process.exitCode = 1;
+});
@@ -0,0 +1,928 @@
+import axios, { AxiosInstance } from 'axios';
+import { Readable } from 'stream';
+
+import {
+    downloadAllAttachments,
+    downloadAttachment,
+    saveAllAttachments,
+    streamAllAttachments,
+    streamAttachment,
+} from './attachment';
+import {
+    defaultCacheTtl,
+    MemoryResponseCacheStore,
+    responseCacheKey,
+} from './cache';
+import { NetworkError, SessionExpiredError } from './errors';
+import { redactError, redactHeaders, redactUrl, writeDebugPage } from './hooks';
+import {
+    AttachmentDownload,
+    AttachmentStream,
+    CachedResponse,
+    CacheEndpoint,
+    CleanupDraftTendersOptions,
+    CleanupDraftTendersResult,
+    ClientHooks,
+    ClientOptions,
+    ClientRequest,
+    ClientResponse,
+    ClientStreamResponse,
+    Company,
+    CompanyLogo,
+    CompanyLogoOptions,
+    CompanyLogoResult,
+    DynamicPurchasingSystemDetails,
+    Language,
+    MultilingualNotice,
+    NoticeDetails,
+    Notices,
+    RequestHookEvent,
+    ResponseCacheStore,
+    ResponseHookEvent,
+    RetryPolicy,
+    SaveAttachmentsOptions,
+    SavedAttachments,
+    Session,
+    SupplierRegister,
+    SupplierRegisterDetails,
+    Tender,
+    Transport,
+    TransportResponse,
+} from './interfaces';
+import { getCompanies, getNotices, getSupplierRegisters } from './company';
+import { getDynamicPurchasingSystem } from './dps';
+import { getCompanyLogo, getCompanyLogos } from './logo';
+import { getNotice, getNoticeMultilingual } from './notice';
+import { getSupplierRegister } from './register';
+import { resolveRetryPolicy, retryDelay } from './retry';
+import { isSessionValid } from './session';
+import {
+    cleanupDraftTenders,
+    getTenderId,
+    getTenders,
+    removeTender,
+    TenderCleanupBatch,
+} from './tender';
+import {
+    buildAllAttachmentsLink,
+    buildAttachmentLink,
+    companySlugToId,
+    getHeader,
+    getSession,
+    getSessionLanguage,
+    loginToSession,
+    setSessionLanguage,
+} from './utilities';
+
+/**
+ * Create a transport that sends the requests with axios. Redirects are never followed and every status code resolves, so that the client can inspect them.
+ *
+ * @param instance - The axios instance to send the requests with, e.g. one configured with a proxy. Defaults to a new instance.
+ *
+ * @returns Transport function to be given to the client
+ */
+export const axiosTransport = (
+    instance: AxiosInstance = axios.create()
+): Transport => async (request) => {
+    const response = await instance.request({
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        data: request.data,
+        timeout: request.timeout,
+        maxRedirects: 0,
+        responseType: request.stream ? 'stream' : 'arraybuffer',
+        validateStatus: () => true,
+    });
+
+    if (request.stream)
+        return {
+            status: response.status,
+            headers: response.headers,
+            data: Buffer.alloc(0),
+            stream: response.data,
+        };
+
+    return {
+        status: response.status,
+        headers: response.headers,
+        data: Buffer.from(response.data),
+    };
+};
+
+/**
+ * Wrap a transport so that it sends at most the given number of requests per second. Requests over the limit wait for their turn.
+ *
+ * @param transport         - The transport to wrap
+ * @param requestsPerSecond - The maximum number of requests to start per second
+ *
+ * @returns The rate limited transport
+ */
+export const rateLimitTransport = (
+    transport: Transport,
+    requestsPerSecond: number
+): Transport => {
+    const spacing = 1000 / requestsPerSecond;
+    let nextSlot = 0;
+
+    return async (request) => {
+        // Reserve the next free slot before waiting, so that concurrent requests queue up in order
+        const now = Date.now();
+        const slot = Math.max(now, nextSlot);
+        nextSlot = slot + spacing;
+
+        if (slot > now)
+            await new Promise((resolve) => setTimeout(resolve, slot - now));
+
+        return transport(request);
+    };
+};
+
+// What a managed session was created with, for renewing it after it expires
+interface ManagedSessionState {
+    slug: string;
+    username?: string;
+    password?: string;
+    companyId?: number;
+    language?: Language;
+    renewal?: Promise<void>;
+}
+
+/**
+ * Client for Tarjouspalvelu.fi that owns the base URL, the default headers and the transport used for all requests.
+ *
+ * The free functions of the library use `defaultClient`, which points to https://tarjouspalvelu.fi.
+ *
+ * With the `cache` option, the responses of the company list, slug resolution and notice lists are cached for a while, and identical requests on their way at
+ * the same time share a response. Pages of a session are only shared with the same session.
+ *
+ * Failed GET and HEAD requests are retried with an exponential backoff by default. The `retry` option changes the policy of the client,
+ * and `extend({ retry })` creates a client with another policy for single calls, which shares the managed sessions and the cache of this client.
+ *
+ * The `hooks` option is called before and after every request, on network errors and after parsing a page, with the name of the operation,
+ * the timing and the status. The URLs and headers given to the hooks have the session identifiers and cookies redacted.
+ *
+ * With the `manageSessions` option, the client remembers the slug, credentials and language given to `getSession`, `loginToSession` and `setSessionLanguage`.
+ * When a session expires, the client renews it in place and retries the call once.
+ */
+export class TarjouspalveluClient {
+    readonly baseUrl: string;
+    readonly headers: Record<string, string>;
+    readonly userAgent: string | undefined;
+    readonly timeout: number;
+    readonly transport: Transport;
+    readonly manageSessions: boolean;
+    readonly cache: ResponseCacheStore | undefined;
+    readonly retry: RetryPolicy | false;
+    readonly hooks: ClientHooks;
+    readonly debugDirectory: string | undefined;
+
+    private readonly cacheTtl: Record<CacheEndpoint, number>;
+    private readonly cacheSessionPages: boolean;
+    private readonly pendingRequests = new Map<
+        string,
+        Promise<TransportResponse>
+    >();
+
+    // Replaced by extend, so that the extended clients renew the same sessions
+    private managedSessions = new WeakMap<Session, ManagedSessionState>();
+
+    private readonly options: ClientOptions;
+
+    /**
+     * @param options - Base URL, default headers, user agent, timeout in milliseconds (0 for none, defaults to 30 seconds), transport of the client, whether to renew expired sessions,
+     * whether to cache responses, optionally with the store, the TTL of each endpoint in milliseconds and whether to cache the pages of sessions,
+     * the retry policy (false to never retry, `defaultRetryPolicy` if not given), the lifecycle hooks and a directory to write the loaded pages to for debugging
+     */
+    constructor(options: ClientOptions = {}) {
+        this.baseUrl = (options.baseUrl ?? 'https://tarjouspalvelu.fi').replace(
+            /\/+$/,
+            ''
+        );
+        this.headers = options.headers ?? {};
+        this.userAgent = options.userAgent;
+        this.timeout = options.timeout ?? 30 * 1000;
+        this.transport = options.transport ?? axiosTransport();
+        this.manageSessions = options.manageSessions ?? false;
+        this.options = options;
+
+        const cache = options.cache === true ? {} : options.cache || undefined;
+
+        this.cache = cache
+            ? cache.store ?? new MemoryResponseCacheStore()
+            : undefined;
+        this.cacheTtl = { ...defaultCacheTtl, ...cache?.ttl };
+        this.cacheSessionPages = cache?.sessionPages ?? true;
+
+        this.retry = options.retry ?? {};
+        this.hooks = options.hooks ?? {};
+        this.debugDirectory = options.debugDirectory;
+    }
+
+    /**
+     * Create a new client with the options of this client, overridden by the given ones.
+     * The new client renews the sessions managed by this client, and uses the same cache store unless it's given its own `cache` option.
+     *
+     * @param options - The options to override
+     *
+     * @returns The new client
+     */
+    extend(options: ClientOptions): TarjouspalveluClient {
+        const client = new TarjouspalveluClient({
+            ...this.options,
+            ...options,
+            cache:
+                options.cache ??
+                (this.cache
+                    ? {
+                          store: this.cache,
+                          ttl: this.cacheTtl,
+                          sessionPages: this.cacheSessionPages,
+                      }
+                    : false),
+        });
+
+        client.managedSessions = this.managedSessions;
+
+        return client;
+    }
+
+    /**
+     * Build an absolute URL from a path on the site
+     *
+     * @param path - The path to build the URL from, starting with a slash
+     *
+     * @returns The absolute URL
+     */
+    url(path: string): string {
+        return `${this.baseUrl}${path}`;
+    }
+
+    /**
+     * Send a request with the transport of the client, without decoding the response body
+     *
+     * @param request - The request to send
+     * @param stream  - Whether to ask the transport for the response body as a stream
+     *
+     * @returns The raw response
+     *
+     * @throws NetworkError if the transport fails to get a response
+     */
+    async requestRaw(
+        request: ClientRequest,
+        stream = false
+    ): Promise<TransportResponse> {
+        const url = this.url(request.path);
+        const endpoint = stream ? undefined : this.cacheEndpoint(request);
+
+        if (!endpoint) return this.send(request, url, stream);
+
+        const key = responseCacheKey(endpoint, url, request);
+
+        const started = Date.now();
+        const cached = await this.readCache(key);
+
+        if (cached) {
+            const event = this.requestEvent(
+                request,
+                url,
+                this.requestHeaders(request),
+                0
+            );
+
+            this.runHook('onRequest', event);
+            this.runHook(
+                'onResponse',
+                this.responseEvent(event, cached, started, true, false)
+            );
+
+            return cached;
+        }
+
+        // Identical requests that are already on their way share the response
+        let pending = this.pendingRequests.get(key);
+
+        if (!pending) {
+            pending = this.send(request, url, false)
+                .then(async (response) => {
+                    await this.writeCache(key, endpoint, request, response);
+                    return response;
+                })
+                .finally(() => {
+                    this.pendingRequests.delete(key);
+                });
+
+            this.pendingRequests.set(key, pending);
+        }
+
+        return pending;
+    }
+
+    // Send a request with the transport, bypassing the cache, and retry it as the retry policy allows
+    private async send(
+        request: ClientRequest,
+        url: string,
+        stream: boolean
+    ): Promise<TransportResponse> {
+        const policy = resolveRetryPolicy(this.retry, request);
+        const headers = this.requestHeaders(request);
+
+        for (let attempt = 0; ; attempt++) {
+            const event = this.requestEvent(request, url, headers, attempt);
+            const started = Date.now();
+
+            this.runHook('onRequest', event);
+
+            let response: TransportResponse;
+
+            try {
+                response = await this.transport({
+                    method: request.method ?? 'GET',
+                    url,
+                    headers,
+                    data: request.data,
+                    timeout: request.timeout ?? this.timeout,
+                    stream,
+                });
+            } catch (transportError) {
+                const error = redactError(transportError);
+                const willRetry = !!policy && attempt < policy.retries;
+
+                this.runHook('onError', {
+                    ...event,
+                    error,
+                    duration: Date.now() - started,
+                    willRetry,
+                });
+
+                if (policy && willRetry) {
+                    const delay = retryDelay(policy, attempt);
+                    await new Promise((resolve) => setTimeout(resolve, delay));
+                    continue;
+                }
+
+                throw new NetworkError(
+                    `Request to ${redactUrl(url)} failed: ${error.message}`,
+                    undefined,
+                    url,
+                    error
+                );
+            }
+
+            const willRetry =
+                !!policy &&
+                attempt < policy.retries &&
+                policy.statuses.includes(response.status);
+
+            this.runHook(
+                'onResponse',
+                this.responseEvent(event, response, started, false, willRetry)
+            );
+
+            if (policy && willRetry) {
+                const delay = retryDelay(policy, attempt, response);
+                response.stream?.destroy();
+                await new Promise((resolve) => setTimeout(resolve, delay));
+                continue;
+            }
+
+            // A redirect means that the session wasn't accepted, so it doesn't count as using it
+            if (request.session && response.status !== 302)
+                request.session.lastUsed = new Date();
+
+            return response;
+        }
+    }
+
+    private requestHeaders(request: ClientRequest): Record<string, string> {
+        return {
+            ...this.headers,
+            ...(this.userAgent ? { 'User-Agent': this.userAgent } : {}),
+            ...request.headers,
+        };
+    }
+
+    private requestEvent(
+        request: ClientRequest,
+        url: string,
+        headers: Record<string, string>,
+        attempt: number
+    ): RequestHookEvent {
+        return {
+            operation: request.operation ?? request.path.split('?')[0],
+            method: request.method ?? 'GET',
+            url: redactUrl(url),
+            requestHeaders: redactHeaders(headers),
+            attempt,
+        };
+    }
+
+    private responseEvent(
+        event: RequestHookEvent,
+        response: TransportResponse,
+        started: number,
+        cached: boolean,
+        willRetry: boolean
+    ): ResponseHookEvent {
+        const location = getHeader(response.headers, 'location');
+        const length = getHeader(response.headers, 'content-length');
+
+        return {
+            ...event,
+            status: response.status,
+            responseHeaders: redactHeaders(response.headers),
+            redirect: location ? redactUrl(location) : undefined,
+            // The size of a stream isn't known until it's read
+            bytes: response.stream
+                ? parseInt(length ?? '') || undefined
+                : response.data.length,
+            duration: Date.now() - started,
+            cached,
+            willRetry,
+        };
+    }
+
+    // Run a hook of the client, if it has one. A failing hook doesn't fail the request.
+    private runHook<K extends keyof ClientHooks>(
+        name: K,
+        event: Parameters<NonNullable<ClientHooks[K]>>[0]
+    ): void {
+        const hook = this.hooks[name] as
+            | ((event: Parameters<NonNullable<ClientHooks[K]>>[0]) => void)
+            | undefined;
+
+        try {
+            hook?.(event);
+        } catch (error) {
+            // Ignored, see above
+        }
+    }
+
+    // Get the endpoint to cache a request as, or undefined if it isn't cached
+    private cacheEndpoint(request: ClientRequest): CacheEndpoint | undefined {
+        if (
+            !this.cache ||
+            !request.cache ||
+            (request.session && !this.cacheSessionPages) ||
+            !(this.cacheTtl[request.cache] > 0)
+        )
+            return undefined;
+
+        return request.cache;
+    }
+
+    private async readCache(
+        key: string
+    ): Promise<TransportResponse | undefined> {
+        let cached: CachedResponse | undefined;
+
+        // A failing store only costs a request, so it's treated as a miss
+        try {
+            cached = await this.cache?.get(key);
+        } catch (error) {
+            return undefined;
+        }
+
+        if (!cached) return undefined;
+
+        return {
+            status: cached.status,
+            headers: cached.headers,
+            data: Buffer.from(cached.data, 'base64'),
+        };
+    }
+
+    private async writeCache(
+        key: string,
+        endpoint: CacheEndpoint,
+        request: ClientRequest,
+        response: TransportResponse
+    ): Promise<void> {
+        // Redirects of a session mean that it has expired, but other redirects are the answer, e.g. the company of a slug
+        if (
+            response.status !== 200 &&
+            (request.session ||
+                (response.status !== 301 && response.status !== 302))
+        )
+            return;
+
+        try {
+            await this.cache?.set(
+                key,
+                {
+                    status: response.status,
+                    headers: response.headers,
+                    data: response.data.toString('base64'),
+                },
+                this.cacheTtl[endpoint]
+            );
+        } catch (error) {
+            // The response is still good even if it couldn't be cached
+        }
+    }
+
+    /**
+     * Send a request with the transport of the client
+     *
+     * @param request - The request to send
+     *
+     * @returns The response with the body decoded as UTF-8 text
+     */
+    async request(request: ClientRequest): Promise<ClientResponse> {
+        const response = await this.requestRaw(request);
+        const url = this.url(request.path);
+        const data = response.data.toString('utf8');
+
+        if (this.debugDirectory && data.length !== 0)
+            try {
+                await writeDebugPage(
+                    this.debugDirectory,
+                    request.operation ?? request.path.split('?')[0],
+                    url,
+                    response.status,
+                    data,
+                    request.session
+                );
+            } catch (error) {
+                // Debugging must not break the request
+            }
+
+        return {
+            ...response,
+            url,
+            data,
+        };
+    }
+
+    /**
+     * Run a parser on a page, reporting how long it took and whether it failed to the `onParse` hook
+     *
+     * @param operation - Name of the operation the page is parsed for, e.g. `getNotice`
+     * @param url       - URL of the parsed page
+     * @param parser    - The function parsing the page
+     *
+     * @returns What the parser returned
+     */
+    parse<T>(operation: string, url: string | undefined, parser: () => T): T {
+        const started = Date.now();
+
+        try {
+            const result = parser();
+
+            this.runHook('onParse', {
+                operation,
+                url: url && redactUrl(url),
+                duration: Date.now() - started,
+            });
+
+            return result;
+        } catch (error) {
+            this.runHook('onParse', {
+                operation,
+                url: url && redactUrl(url),
+                duration: Date.now() - started,
+                error,
+            });
+
+            throw error;
+        }
+    }
+
+    /**
+     * Renew an expired managed session in place: get a new session, log it in and restore its language
+     *
+     * @param session - The managed session to renew
+     *
+     * @throws SessionExpiredError if the session isn't managed by this client
+     */
+    async renewSession(session: Session): Promise<void> {
+        const state = this.managedSessions.get(session);
+
+        if (!state)
+            throw new SessionExpiredError(
+                'Session has expired and is not managed by the client'
+            );
+
+        // Share the renewal between calls that notice the expiry at the same time
+        if (!state.renewal)
+            state.renewal = (async () => {
+                const renewed = await getSession(state.slug, this);
+
+                session.uuid = renewed.uuid;
+                session.id = renewed.id;
+                session.companyId = renewed.companyId;
+                session.createdAt = renewed.createdAt;
+                session.lastUsed = renewed.lastUsed;
+                delete session.token;
+                delete session.username;
+                delete session.language;
+
+                if (
+                    state.username !== undefined &&
+                    state.password !== undefined
+                )
+                    await loginToSession(
+                        state.slug,
+                        state.username,
+                        state.password,
+                        session,
+                        this
+                    );
+
+                if (state.companyId !== undefined && state.language)
+                    await setSessionLanguage(
+                        state.companyId,
+                        state.language,
+                        session,
+                        this
+                    );
+            })().finally(() => {
+                state.renewal = undefined;
+            });
+
+        return state.renewal;
+    }
+
+    // Run a call with a session, renewing the session and retrying once if it has expired
+    private async withSession<T>(
+        session: Session,
+        call: () => Promise<T>
+    ): Promise<T> {
+        try {
+            return await call();
+        } catch (error) {
+            if (
+                !(error instanceof SessionExpiredError) ||
+                !this.managedSessions.has(session)
+            )
+                throw error;
+
+            await this.renewSession(session);
+
+            return call();
+        }
+    }
+
+    /**
+     * Send a request with the transport of the client, reading the response body as a stream
+     *
+     * @param request - The request to send
+     *
+     * @returns The response with the body as a stream. If the transport doesn't support streaming, the buffered body is streamed instead.
+     */
+    async requestStream(request: ClientRequest): Promise<ClientStreamResponse> {
+        const response = await this.requestRaw(request, true);
+
+        return {
+            url: this.url(request.path),
+            status: response.status,
+            headers: response.headers,
+            stream: response.stream ?? Readable.from([response.data]),
+        };
+    }
+
+    companySlugToId(slug: string): Promise<number> {
+        return companySlugToId(slug, this);
+    }
+
+    async getSession(slug: string): Promise<Session> {
+        const session = await getSession(slug, this);
+
+        if (this.manageSessions) this.managedSessions.set(session, { slug });
+
+        return session;
+    }
+
+    async loginToSession(
+        slug: string,
+        username: string,
+        password: string,
+        session?: Session
+    ): Promise<Session> {
+        const loggedIn = await loginToSession(
+            slug,
+            username,
+            password,
+            session,
+            this
+        );
+
+        if (this.manageSessions)
+            this.managedSessions.set(loggedIn, {
+                ...this.managedSessions.get(loggedIn),
+                slug,
+                username,
+                password,
+            });
+
+        return loggedIn;
+    }
+
+    async setSessionLanguage(
+        companyId: number,
+        language: Language,
+        session: Session
+    ): Promise<Session> {
+        await this.withSession(session, () =>
+            setSessionLanguage(companyId, language, session, this)
+        );
+
+        const state = this.managedSessions.get(session);
+
+        if (state) {
+            state.companyId = companyId;
+            state.language = language;
+        }
+
+        return session;
+    }
+
+    isSessionValid(session: Session): Promise<boolean> {
+        return isSessionValid(session, this);
+    }
+
+    getSessionLanguage(companyId: number, session: Session): Promise<Language> {
+        return this.withSession(session, () =>
+            getSessionLanguage(companyId, session, this)
+        );
+    }
+
+    getCompanies(getLogos = false): Promise<Company[]> {
+        return getCompanies(getLogos, this);
+    }
+
+    getCompanyLogo(company: Company): Promise<CompanyLogo> {
+        return getCompanyLogo(company, this);
+    }
+
+    getCompanyLogos(
+        companies: Company[],
+        options: CompanyLogoOptions = {}
+    ): Promise<CompanyLogoResult[]> {
+        return getCompanyLogos(companies, options, this);
+    }
+
+    getNotices(companyId: number, session: Session): Promise<Notices> {
+        return this.withSession(session, () =>
+            getNotices(companyId, session, this)
+        );
+    }
+
+    getSupplierRegisters(
+        companyId: number,
+        session: Session,
+        language: Language = session.language ?? Language.Fi
+    ): Promise<SupplierRegister[]> {
+        return this.withSession(session, () =>
+            getSupplierRegisters(companyId, session, language, this)
+        );
+    }
+
+    getNotice(
+        companyId: number,
+        noticeId: number,
+        session: Session,
+        cleanup: boolean | TenderCleanupBatch = true
+    ): Promise<NoticeDetails> {
+        return this.withSession(session, () =>
+            getNotice(companyId, noticeId, session, cleanup, this)
+        );
+    }
+
+    getNoticeMultilingual(
+        companyId: number,
+        noticeId: number,
+        session: Session,
+        languages: Language[] = Object.values(Language),
+        cleanup: boolean | TenderCleanupBatch = true
+    ): Promise<MultilingualNotice> {
+        return this.withSession(session, () =>
+            getNoticeMultilingual(
+                companyId,
+                noticeId,
+                session,
+                languages,
+                cleanup,
+                this
+            )
+        );
+    }
+
+    getDynamicPurchasingSystem(
+        companyId: number,
+        dpsId: number,
+        session: Session,
+        cleanup: boolean | TenderCleanupBatch = true
+    ): Promise<DynamicPurchasingSystemDetails> {
+        return this.withSession(session, () =>
+            getDynamicPurchasingSystem(companyId, dpsId, session, cleanup, this)
+        );
+    }
+
+    getSupplierRegister(
+        companyId: number,
+        registerId: number,
+        session: Session
+    ): Promise<SupplierRegisterDetails> {
+        return this.withSession(session, () =>
+            getSupplierRegister(companyId, registerId, session, this)
+        );
+    }
+
+    getTenderId(
+        companyId: number,
+        noticeId: number,
+        session: Session
+    ): Promise<string> {
+        return this.withSession(session, () =>
+            getTenderId(companyId, noticeId, session, this)
+        );
+    }
+
+    removeTender(
+        companyId: number,
+        tenderId: string,
+        session: Session
+    ): Promise<void> {
+        return removeTender(companyId, tenderId, session, this);
+    }
+
+    getTenders(
+        companyId: number,
+        session: Session,
+        noticeIds: number[] = []
+    ): Promise<Tender[]> {
+        return this.withSession(session, () =>
+            getTenders(companyId, session, noticeIds, this)
+        );
+    }
+
+    cleanupDraftTenders(
+        session: Session,
+        options: CleanupDraftTendersOptions
+    ): Promise<CleanupDraftTendersResult> {
+        return this.withSession(session, () =>
+            cleanupDraftTenders(session, options, this)
+        );
+    }
+
+    streamAttachment(
+        fileUuid: string,
+        session: Session
+    ): Promise<AttachmentStream> {
+        return this.withSession(session, () =>
+            streamAttachment(fileUuid, session, this)
+        );
+    }
+
+    downloadAttachment(
+        fileUuid: string,
+        session: Session
+    ): Promise<AttachmentDownload> {
+        return this.withSession(session, () =>
+            downloadAttachment(fileUuid, session, this)
+        );
+    }
+
+    streamAllAttachments(
+        noticeId: number,
+        session: Session
+    ): Promise<AttachmentStream> {
+        return this.withSession(session, () =>
+            streamAllAttachments(noticeId, session, this)
+        );
+    }
+
+    downloadAllAttachments(
+        noticeId: number,
+        session: Session
+    ): Promise<AttachmentDownload> {
+        return this.withSession(session, () =>
+            downloadAllAttachments(noticeId, session, this)
+        );
+    }
+
+    saveAllAttachments(
+        noticeId: number,
+        session: Session,
+        directory: string,
+        options: SaveAttachmentsOptions = {}
+    ): Promise<SavedAttachments> {
+        return this.withSession(session, () =>
+            saveAllAttachments(noticeId, session, directory, options, this)
+        );
+    }
+
+    buildAttachmentLink(fileUuid: string): string {
+        return buildAttachmentLink(fileUuid, this);
+    }
+
+    buildAllAttachmentsLink(noticeId: number): string {
+        return buildAllAttachmentsLink(noticeId, this);
+    }
+}
+
+/**
+ * The client used by the free functions when no client is given to them
+ */
+export const defaultClient = new TarjouspalveluClient();
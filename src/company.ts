@@ -1,26 +1,43 @@
-import axios from 'axios';
 import cheerio from 'cheerio';
-import imageToBase64 from 'image-to-base64';
 import querystring from 'querystring';
 
-import { Company, Notices, Session } from './interfaces';
-import { matchLocale, parseLocalizedDate } from './utilities';
+import { defaultClient, TarjouspalveluClient } from './client';
+import { NetworkError, ParseError, SessionExpiredError } from './errors';
+import {
+    CacheEndpoint,
+    Company,
+    Language,
+    Notices,
+    Session,
+    SupplierRegister,
+} from './interfaces';
+import { parseFlagIconName, parseNoticeFlag, parseNoticeType } from './labels';
+import { getCompanyLogos } from './logo';
+import { matchLocale, parseDate } from './utilities';
 
 /**
- * Get all companies from the Tarjouspalvelu index page. **Note that this may exclude some companies that aren't listed there.**
+ * Companies that are missing from the Tarjouspalvelu index page, and thus from the results of `getCompanies`
+ */
+export const missingCompanies: Company[] = [
+    {
+        id: 279,
+        slug: 'hanki',
+        name: 'Hanki-palvelu',
+        logo: undefined,
+    },
+];
+
+/**
+ * Parse all companies from the Tarjouspalvelu index page, without their logos
  *
- * @param getLogos - Get the company logos in Base64 format
+ * @param html - The HTML source of the index page
+ * @param url  - URL of the page, included in the errors if parsing fails
  *
  * @returns Array of the companies
  */
-export const getCompanies = async (getLogos = false): Promise<Company[]> => {
-    // Fetch the tarjouspalvelu index page
-    const response = await axios.get('https://tarjouspalvelu.fi/Default/Index');
-    if (!response)
-        throw new Error('Failed getting index page from tarjouspalvelu');
-
-    // Initialize cheerio with the fetched response
-    const $ = cheerio.load(response.data);
+export const parseCompaniesPage = (html: string, url?: string): Company[] => {
+    // Initialize cheerio with the page
+    const $ = cheerio.load(html);
 
     // Get company cells from the main table
     const companiesTable = $('tr > td');
@@ -38,86 +55,100 @@ export const getCompanies = async (getLogos = false): Promise<Company[]> => {
             continue;
         }
 
-        // Get company id from the company image src attribute, omitting the image path with substr
-        let id: string | undefined | number = $(
-            $(companiesTable[i]).find('img')[0]
-        )
-            .attr('src')
-            ?.substr(15);
+        const logoPath = $($(companiesTable[i]).find('img')[0]).attr('src');
 
-        if (!id) throw new Error('Failed getting company id');
+        // Get company id from the company image src attribute, omitting the image path with substr
+        const id = logoPath?.substr(15);
 
-        id = parseInt(id);
+        if (!logoPath || !id)
+            throw new ParseError(
+                'Failed getting company id',
+                'tr > td img',
+                url
+            );
 
         // Get company slug from company link, omitting the tarjouspalvelu.fi url
         const slug = $($(companiesTable[i]).find('a')[0])
             .attr('href')
             ?.substr(26);
 
-        if (!slug) throw new Error('Failed getting company slug');
+        if (!slug)
+            throw new ParseError(
+                'Failed getting company slug',
+                'tr > td a',
+                url
+            );
 
         // Get company full name from the title
         const name = $($(companiesTable[i]).find('p')[0]).text();
 
-        // If the getLogos parameter is set, get the image in base64 format
-        const logo = getLogos
-            ? await imageToBase64(
-                  `https://tarjouspalvelu.fi${$(
-                      $(companiesTable[i]).find('img')[0]
-                  ).attr('src')}`
-              )
-            : undefined;
-
-        // Push the fetched company data to the companies array
         companies.push({
-            id,
+            id: parseInt(id),
             slug,
             name,
-            logo,
+            logo: undefined,
+            logoPath,
         });
     }
 
-    // Return the filled companies array
     return companies;
 };
 
 /**
- * Get all active notices and other notices of a company. **This function currently does not support supplier registers.**
+ * Get all companies from the Tarjouspalvelu index page. **Note that this may exclude some companies that aren't listed there.**
  *
- * @param companyId - ID of the company to get the notices
- * @param session   - The Session object to be used for getting the notices. Does not have to be logged in.
+ * @param getLogos - Get the company logos. A logo that fails to load is left undefined; use `getCompanyLogos` to see the errors.
+ * @param client   - The client to send the requests with. Defaults to the default client.
+ *
+ * @returns Array of the companies
+ */
+export const getCompanies = async (
+    getLogos = false,
+    client: TarjouspalveluClient = defaultClient
+): Promise<Company[]> => {
+    // Fetch the tarjouspalvelu index page
+    const response = await client.request({
+        operation: 'getCompanies',
+        path: '/Default/Index',
+        cache: CacheEndpoint.Companies,
+    });
+    if (response.status !== 200)
+        throw new NetworkError(
+            'Failed getting index page from tarjouspalvelu',
+            response.status,
+            response.url
+        );
+
+    const companies = client.parse('getCompanies', response.url, () =>
+        parseCompaniesPage(response.data, response.url)
+    );
+
+    if (!getLogos) return companies;
+
+    return (
+        await getCompanyLogos(companies, {}, client)
+    ).map(({ company, logo }) => ({ ...company, logo }));
+};
+
+/**
+ * Parse the notices and dynamic purchasing systems from the notices page of a company. The supplier registers are on a separate page, so they are left empty.
+ *
+ * @param html - The HTML source of the notices page
+ * @param url  - URL of the page, included in the errors if parsing fails
  *
  * @returns Notices object that includes all dynamic purchasing systems and notices
  *
- * @beta
+ * @throws ParseError if a row doesn't link to its notice or dynamic purchasing system
  */
-export const getNotices = async (
-    companyId: number,
-    session: Session
-): Promise<Notices> => {
-    // Fetch the tarjouspalvelu notices page
-    const response = await axios
-        .get(
-            `https://tarjouspalvelu.fi/tarjouspyynnot.aspx?p=${companyId}&g=${session.uuid}`,
-            {
-                headers: { Cookie: `ASP.NET_SessionId_TP=${session.id};` },
-                maxRedirects: 0,
-            }
-        )
-        .catch((error) => {
-            if (error.response.status === 302)
-                throw new Error('Failed to load notices, bad session?');
-            else throw new Error('Failed to load notices');
-        });
+export const parseNoticesPage = (html: string, url?: string): Notices => {
+    const locale = matchLocale(html, url); // Get the language of the page for date parsing
 
-    const locale = matchLocale(response.data); // Get the language of the page for date parsing
-
-    // Initialize cheerio with the fetched response
-    const $ = cheerio.load(response.data);
+    // Initialize cheerio with the page
+    const $ = cheerio.load(html);
 
     // Initialize notices variable
     const notices: Notices = {
-        // supplierRegisters: [],
+        supplierRegisters: [],
         dynamicPurchasingSystems: [],
         notices: [],
         language: locale,
@@ -136,13 +167,33 @@ export const getNotices = async (
                 ? true
                 : false;
 
+        const originalDeadline = $(row[4]).text().trim();
+        const deadline =
+            originalDeadline.length !== 0
+                ? parseDate(
+                      originalDeadline,
+                      locale,
+                      url,
+                      '#DPSIlmoituslista > tbody > tr > td:nth-child(5)'
+                  )
+                : null;
+
+        // Get the DPS id from the link to it
+        const id = parseInt(
+            querystring
+                .parse($(row[6]).find('a').attr('href') || '')
+                .tpID?.toString() ?? ''
+        );
+
+        if (!id)
+            throw new ParseError(
+                'Failed getting dynamic purchasing system id',
+                '#DPSIlmoituslista > tbody > tr a',
+                url
+            );
+
         notices.dynamicPurchasingSystems.push({
-            id: parseInt(
-                // Get the DPS id from the link to it
-                querystring
-                    .parse($(row[6]).find('a').attr('href') || '')
-                    .tpID.toString()
-            ),
+            id,
 
             customId: $(row[1]).text().trim(),
 
@@ -160,9 +211,12 @@ export const getNotices = async (
                       .trim()
                 : undefined,
 
-            deadline: parseLocalizedDate($(row[4]).text().trim(), locale),
+            deadline: deadline?.date ?? null,
 
-            originalDeadline: $(row[4]).text().trim(),
+            deadlineHasTime: deadline?.hasTime ?? null,
+
+            originalDeadline:
+                originalDeadline.length !== 0 ? originalDeadline : null,
         });
     }
 
@@ -172,35 +226,51 @@ export const getNotices = async (
     for (let i = 0; i < noticeRows.length; i++) {
         const row = $(noticeRows[i]).find('td');
 
+        const flagIcons: string[] = $(row[2])
+            .find('img')
+            .map((_i, el) => $(el).attr('src') ?? '')
+            .get();
+
+        const typeLabels: string[] = $(row[2])
+            .find('span')
+            .map((_i, el) => $(el).text().trim())
+            .get();
+
+        const originalDeadline = $(row[4]).text().trim();
+        const deadline =
+            originalDeadline.length !== 0
+                ? parseDate(
+                      originalDeadline,
+                      locale,
+                      url,
+                      '#ctl00_PageContent_GridView1 > tbody > tr > td:nth-child(5)'
+                  )
+                : null;
+
+        // Get the notice id from the link to it
+        const id = parseInt(
+            querystring
+                .parse($(row[6]).find('a').attr('href') || '')
+                .tpID?.toString() ?? ''
+        );
+
+        if (!id)
+            throw new ParseError(
+                'Failed getting notice id',
+                '#ctl00_PageContent_GridView1 > tbody > tr a',
+                url
+            );
+
         notices.notices.push({
-            id: parseInt(
-                // Get the notice id from the link to it
-                querystring
-                    .parse($(row[6]).find('a').attr('href') || '')
-                    .tpID.toString()
-            ),
+            id,
 
             customId: $(row[0]).text().trim(),
 
             unit: $(row[1]).text().trim(),
 
-            flags: $(row[2])
-                .find('img')
-                .map((i, el) => {
-                    let flag = $(el)
-                        .attr('src')
-                        ?.match(/ikoni_(.*?).gif/); // Get the flag text from the icon filename
-
-                    if (!flag)
-                        flag = $(el)
-                            .attr('src')
-                            ?.match(/images\/(.*?)_ikoni/); // The pienhankinta icon differs from the type of it, so check it if no regular icons are found
-
-                    if (!flag) throw new Error('Failed to parse flag image');
+            flags: flagIcons.map(parseNoticeFlag),
 
-                    return flag[1];
-                })
-                .get(),
+            originalFlags: flagIcons.map(parseFlagIconName),
 
             title: $(row[2])
                 .find('a')
@@ -208,46 +278,221 @@ export const getNotices = async (
                 .trim()
                 .replace(`${$(row[0]).text().trim()} / `, ''),
 
-            types: $(row[2])
-                .find('span')
-                .map((_i, el) => $(el).text())
-                .get(),
+            types: typeLabels.map(parseNoticeType),
+
+            originalTypes: typeLabels,
 
             shortDescription: $(row[3]).find('span').text().trim(),
 
             isBeingCorrected:
                 $(row[3]).find('span').css('color') === 'red' ? true : false,
 
-            deadline:
-                $(row[4]).text().trim().length !== 0
-                    ? parseLocalizedDate($(row[4]).text().trim(), locale)
-                    : null,
+            deadline: deadline?.date ?? null,
+
+            deadlineHasTime: deadline?.hasTime ?? null,
+
+            originalDeadline:
+                originalDeadline.length !== 0 ? originalDeadline : null,
+        });
+    }
+
+    // Return the filled notices object
+    return notices;
+};
+
+/**
+ * Parse the supplier registers from the supplier register list of a company
+ *
+ * @param html   - The HTML source of the supplier register list
+ * @param locale - The language of the session, for parsing the dates
+ * @param url    - URL of the list, included in the errors if parsing fails
+ *
+ * @returns Array of the supplier registers
+ *
+ * @throws ParseError if the link of a row doesn't have the id of its supplier register
+ */
+export const parseSupplierRegisterList = (
+    html: string,
+    locale: Language,
+    url?: string
+): SupplierRegister[] => {
+    const supplierRegisters: SupplierRegister[] = [];
+
+    // Initialize cheerio with the page
+    const $ = cheerio.load(html);
+
+    const registerRows = $('table > tbody > tr');
+
+    for (let i = 0; i < registerRows.length; i++) {
+        const row = $(registerRows[i]).find('td');
+
+        // Skip header and empty rows, which don't link to a supplier register
+        const link = $(row[6]).find('a').attr('href');
+        if (!link) continue;
+
+        const shortDescription = $(row[3]).text().trim();
+
+        const isBeingCorrected =
+            $(row[3]).find('div').attr('class') === 'punainenfontti'
+                ? true
+                : false;
+
+        const originalDeadline = $(row[4]).text().trim();
+        const deadline =
+            originalDeadline.length !== 0
+                ? parseDate(
+                      originalDeadline,
+                      locale,
+                      url,
+                      'table > tbody > tr > td:nth-child(5)'
+                  )
+                : null;
+
+        // Get the supplier register id from the link to it
+        const id = parseInt(
+            querystring.parse(link.split('?')[1] || '').id?.toString() ?? ''
+        );
+
+        if (!id)
+            throw new ParseError(
+                'Failed getting supplier register id',
+                'table > tbody > tr a',
+                url
+            );
+
+        supplierRegisters.push({
+            id,
+
+            customId: $(row[1]).text().trim(),
+
+            unit: $(row[0]).text().trim(),
+
+            title: $(row[2]).text().trim(),
+
+            shortDescription,
+
+            isBeingCorrected,
+
+            additionalDesc: isBeingCorrected
+                ? shortDescription
+                      .replace($(row[3]).find('.punainenfontti').text(), '')
+                      .trim()
+                : undefined,
+
+            deadline: deadline?.date ?? null,
+
+            deadlineHasTime: deadline?.hasTime ?? null,
 
             originalDeadline:
-                $(row[4]).text().trim().length !== 0
-                    ? $(row[4]).text().trim()
-                    : null,
+                originalDeadline.length !== 0 ? originalDeadline : null,
         });
     }
 
-    /* if (callType === 'sr' || callType === 'all') {
-                const srCookieJar = new tough.CookieJar();
-                const srResponse = await axios.post(
-                    `https://tarjouspalvelu.fi/TarjousPyynto/KelpuuttamisJarjestelmatLista?pid=${companyId}`,
-                    {
-                        jar: srCookieJar,
-                        withCredentials: true,
-                        maxRedirects: 0,
-                        validateStatus: (status) => status === 200,
-                        headers: { Referer: 'https://tarjouspalvelu.fi/tarjouspyynnot.aspx?p=1' },
-                    },
-                );
-
-                return srResponse;
-
-                const srHtml = mainResponse.data;
-                const sr$ = cheerio.load(srHtml);
-            } */
+    return supplierRegisters;
+};
+
+/**
+ * Get the active supplier registers of a company, which are listed separately from the notices
+ *
+ * @param companyId - ID of the company to get the supplier registers of
+ * @param session   - The Session object to be used for getting the supplier registers. Does not have to be logged in.
+ * @param language  - The language of the session, for parsing the dates. Defaults to the language of the session, or Finnish.
+ * @param client    - The client to send the requests with. Defaults to the default client.
+ *
+ * @returns Array of the supplier registers
+ */
+export const getSupplierRegisters = async (
+    companyId: number,
+    session: Session,
+    language: Language = session.language ?? Language.Fi,
+    client: TarjouspalveluClient = defaultClient
+): Promise<SupplierRegister[]> => {
+    const response = await client.request({
+        operation: 'getSupplierRegisters',
+        method: 'POST',
+        path: `/TarjousPyynto/KelpuuttamisJarjestelmatLista?pid=${companyId}`,
+        session,
+        idempotent: true, // Only lists the supplier registers, so it's safe to retry
+        headers: {
+            Cookie: `ASP.NET_SessionId_TP=${session.id};`,
+            Referer: client.url(
+                `/tarjouspyynnot.aspx?p=${companyId}&g=${session.uuid}`
+            ),
+        },
+        cache: CacheEndpoint.Notices,
+    });
+
+    if (response.status === 302)
+        throw new SessionExpiredError(
+            'Failed to load supplier registers, bad session?',
+            response.url
+        );
+    else if (response.status !== 200)
+        throw new NetworkError(
+            'Failed to load supplier registers',
+            response.status,
+            response.url
+        );
+
+    return client.parse('getSupplierRegisters', response.url, () =>
+        parseSupplierRegisterList(response.data, language, response.url)
+    );
+};
+
+/**
+ * Get all active notices, dynamic purchasing systems and supplier registers of a company.
+ *
+ * The supplier registers are loaded with a request of their own, and if it fails, the notices are returned without them and the error is in `supplierRegistersError`.
+ *
+ * @param companyId - ID of the company to get the notices
+ * @param session   - The Session object to be used for getting the notices. Does not have to be logged in.
+ * @param client    - The client to send the requests with. Defaults to the default client.
+ *
+ * @returns Notices object that includes all supplier registers, dynamic purchasing systems and notices
+ *
+ * @beta
+ */
+export const getNotices = async (
+    companyId: number,
+    session: Session,
+    client: TarjouspalveluClient = defaultClient
+): Promise<Notices> => {
+    // Fetch the tarjouspalvelu notices page
+    const response = await client.request({
+        operation: 'getNotices.notices',
+        path: `/tarjouspyynnot.aspx?p=${companyId}&g=${session.uuid}`,
+        session,
+        headers: { Cookie: `ASP.NET_SessionId_TP=${session.id};` },
+        cache: CacheEndpoint.Notices,
+    });
+
+    if (response.status === 302)
+        throw new SessionExpiredError(
+            'Failed to load notices, bad session?',
+            response.url
+        );
+    else if (response.status !== 200)
+        throw new NetworkError(
+            'Failed to load notices',
+            response.status,
+            response.url
+        );
+
+    const notices = client.parse('getNotices.notices', response.url, () =>
+        parseNoticesPage(response.data, response.url)
+    );
+
+    // Supplier registers are loaded separately from the notices page, and failing to load them doesn't lose the notices
+    try {
+        notices.supplierRegisters = await getSupplierRegisters(
+            companyId,
+            session,
+            notices.language,
+            client
+        );
+    } catch (error) {
+        notices.supplierRegistersError = error;
+    }
 
     // Return the filled notices object
     return notices;
@@ -0,0 +1,137 @@
+import { defaultClient, rateLimitTransport } from './client';
+import { missingCompanies } from './company';
+import { Company, CrawlOptions, CrawlResult, Session } from './interfaces';
+
+/**
+ * Get the notices of many companies, a few at a time and with a limited request rate. A failure on one company doesn't stop the crawl, but is returned as the `error` of its result.
+ * An error thrown by the progress callback stops the crawl and is thrown from the iterator.
+ *
+ * @param options - The companies to crawl (defaults to all companies from `getCompanies` and `missingCompanies`), the session to share between them (created if not given),
+ * the number of companies to crawl at the same time (defaults to 2), the maximum requests per second (defaults to 2), a progress callback and the client to use
+ *
+ * @returns Async iterator of the notices of each company, in the order they finish
+ */
+export async function* crawlNotices(
+    options: CrawlOptions = {}
+): AsyncGenerator<CrawlResult> {
+    const baseClient = options.client ?? defaultClient;
+
+    // All requests of the crawl go through the same rate limit, regardless of the concurrency
+    const client = baseClient.extend({
+        transport: rateLimitTransport(
+            baseClient.transport,
+            options.requestsPerSecond ?? 2
+        ),
+    });
+
+    let companies: Company[];
+
+    if (options.companies) companies = options.companies;
+    else {
+        const listed = await client.getCompanies();
+
+        companies = [
+            ...listed,
+            ...missingCompanies.filter(
+                (missing) =>
+                    !listed.some((company) => company.id === missing.id)
+            ),
+        ];
+    }
+
+    if (companies.length === 0) return;
+
+    let sessionRequest: { slug: string; session: Promise<Session> } | undefined;
+
+    // The shared session is created with the first company, and a failure is only the error of that company
+    const getSession = async (company: Company): Promise<Session> => {
+        if (options.session) return options.session;
+
+        const request =
+            sessionRequest ??
+            (sessionRequest = {
+                slug: company.slug,
+                session: client.getSession(company.slug),
+            });
+
+        try {
+            return await request.session;
+        } catch (error) {
+            if (sessionRequest === request) sessionRequest = undefined;
+            if (request.slug === company.slug) throw error;
+
+            // The session of another company failed, so try with this one
+            return getSession(company);
+        }
+    };
+
+    const queue = [...companies];
+    const results: CrawlResult[] = [];
+    const total = companies.length;
+
+    let completed = 0;
+    let failed = 0;
+    let finished = false;
+    let stopped = false;
+    let wake: (() => void) | undefined;
+    let progressError: unknown;
+
+    const worker = async () => {
+        let company: Company | undefined;
+
+        while (!stopped && (company = queue.shift())) {
+            let result: CrawlResult;
+
+            try {
+                result = {
+                    company,
+                    notices: await client.getNotices(
+                        company.id,
+                        await getSession(company)
+                    ),
+                };
+            } catch (error) {
+                failed++;
+                result = { company, error };
+            }
+
+            completed++;
+            options.onProgress?.({ company, completed, failed, total });
+
+            results.push(result);
+            wake?.();
+        }
+    };
+
+    const workers = Promise.all(
+        Array.from({ length: Math.max(1, options.concurrency ?? 2) }, () =>
+            worker().catch((error) => {
+                // Only the progress callback can throw out of a worker, so stop the others too
+                stopped = true;
+                progressError = error;
+            })
+        )
+    ).then(() => {
+        finished = true;
+        wake?.();
+    });
+
+    try {
+        while (!finished || results.length !== 0) {
+            const result = results.shift();
+
+            if (result) yield result;
+            else
+                await new Promise<void>((resolve) => {
+                    wake = resolve;
+                });
+        }
+
+        await workers;
+
+        if (progressError) throw progressError;
+    } finally {
+        // Stop taking new companies if the caller stops iterating early
+        stopped = true;
+    }
+}
@@ -0,0 +1,439 @@
+import cheerio from 'cheerio';
+
+type DescriptionFormat = 'text' | 'markdown';
+
+// Tags that are kept by the sanitizer, with the attributes allowed on them. Other tags are removed, but their content is kept.
+const allowedTags: Record<string, string[]> = {
+    p: [],
+    br: [],
+    ul: [],
+    ol: [],
+    li: [],
+    table: [],
+    thead: [],
+    tbody: [],
+    tfoot: [],
+    tr: [],
+    th: ['colspan', 'rowspan'],
+    td: ['colspan', 'rowspan'],
+    a: ['href'],
+    strong: [],
+    b: [],
+    em: [],
+    i: [],
+    u: [],
+    h1: [],
+    h2: [],
+    h3: [],
+    h4: [],
+    h5: [],
+    h6: [],
+    blockquote: [],
+    pre: [],
+    code: [],
+};
+
+// Tags that are removed along with their content
+const droppedTags = [
+    'script',
+    'style',
+    'head',
+    'title',
+    'iframe',
+    'object',
+    'embed',
+    'noscript',
+    'template',
+    'svg',
+    'math',
+];
+
+// Tags that start a new block of text
+const blockTags = [
+    'p',
+    'div',
+    'section',
+    'article',
+    'header',
+    'footer',
+    'blockquote',
+    'pre',
+    'h1',
+    'h2',
+    'h3',
+    'h4',
+    'h5',
+    'h6',
+    'ul',
+    'ol',
+    'table',
+    'hr',
+];
+
+// Mark line breaks and block boundaries while rendering with private use characters, so that they can be told apart from the whitespace of the text
+const lineBreak = '\uE000';
+const blockBreak = '\uE001';
+
+/**
+ * Check that a link goes to a web page or an email address, and not for example to a script
+ *
+ * @param href - The href of the link
+ *
+ * @returns Whether the link is safe to show
+ */
+const isSafeHref = (href: string | undefined): href is string =>
+    href !== undefined && /^(https?:\/\/|mailto:)/i.test(href.trim());
+
+const escapeHtml = (text: string): string =>
+    text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+/**
+ * Escape the Markdown syntax of text
+ *
+ * @param text      - The text to escape
+ * @param lineStart - Whether the text starts a line, where a leading `#`, `-`, `+`, `=` or number followed by a period would start a heading or a list
+ *
+ * @returns The escaped text
+ */
+const escapeMarkdown = (text: string, lineStart = false): string => {
+    const escaped = text.replace(/[\\`*_[\]<>|]/g, '\\$&');
+
+    return lineStart
+        ? escaped
+              .replace(/^( *)([#+=-])/, '$1\\$2')
+              .replace(/^( *\d+)([.)])/, '$1\\$2')
+        : escaped;
+};
+
+// Whether text added to the rendered output would start a line
+const isAtLineStart = (output: string): boolean =>
+    /(^|[\uE000\uE001]) *$/.test(output);
+
+// Percent-encode the parentheses and whitespace of a link address, which would end a Markdown link early
+const escapeMarkdownUrl = (url: string): string =>
+    url.replace(/\(/g, '%28').replace(/\)/g, '%29').replace(/\s/g, '%20');
+
+const isTag = (node: cheerio.Element): node is cheerio.TagElement =>
+    node.type === 'tag';
+
+/**
+ * Get the nodes of the description. The description is parsed the way a browser would parse it, so that stray closing tags are ignored, and its nodes are taken from the body.
+ *
+ * @param html - The description HTML
+ *
+ * @returns The top level nodes of the description
+ */
+const parseNodes = (html: string): cheerio.Element[] =>
+    cheerio.load(html)('body').get(0)?.children ?? [];
+
+/**
+ * Render the nodes of a description to plain text or Markdown
+ *
+ * @param nodes  - The nodes to render
+ * @param format - The format to render to
+ *
+ * @returns The rendered text, with blocks separated by empty lines
+ */
+const render = (
+    nodes: cheerio.Element[],
+    format: DescriptionFormat
+): string => {
+    let output = '';
+
+    for (const node of nodes) {
+        if (node.type === 'text') {
+            const text = (node.data ?? '').replace(/\s+/g, ' ');
+
+            const piece =
+                format === 'markdown'
+                    ? escapeMarkdown(text, isAtLineStart(output))
+                    : text;
+
+            // Adjacent text nodes shouldn't add up to several spaces
+            output += output.endsWith(' ') ? piece.replace(/^ /, '') : piece;
+            continue;
+        }
+
+        if (!isTag(node) || droppedTags.includes(node.name)) continue;
+
+        const content = () => render(node.children, format);
+
+        switch (node.name) {
+            case 'br':
+                output += lineBreak;
+                break;
+
+            case 'hr':
+                output +=
+                    format === 'markdown'
+                        ? `${blockBreak}---${blockBreak}`
+                        : blockBreak;
+                break;
+
+            case 'strong':
+            case 'b':
+            case 'em':
+            case 'i': {
+                const text = content();
+                const marker =
+                    format === 'markdown'
+                        ? node.name === 'strong' || node.name === 'b'
+                            ? '**'
+                            : '*'
+                        : '';
+
+                // Keep the surrounding whitespace outside of the markers, because Markdown doesn't allow it inside them
+                if (text.trim())
+                    output += text.replace(
+                        /^( ?)([\s\S]*?)( ?)$/,
+                        `$1${marker}$2${marker}$3`
+                    );
+                break;
+            }
+
+            case 'a': {
+                const text = content().trim();
+                const href = node.attribs.href?.trim();
+
+                if (!isSafeHref(href)) output += text;
+                else if (format === 'markdown')
+                    output += `[${
+                        text || escapeMarkdown(href)
+                    }](${escapeMarkdownUrl(href)})`;
+                else
+                    output +=
+                        text && text !== href ? `${text} (${href})` : href;
+                break;
+            }
+
+            case 'img':
+                output += node.attribs.alt ?? '';
+                break;
+
+            case 'h1':
+            case 'h2':
+            case 'h3':
+            case 'h4':
+            case 'h5':
+            case 'h6': {
+                const text = content().trim();
+                const level = parseInt(node.name[1]);
+
+                if (text)
+                    output += `${blockBreak}${
+                        format === 'markdown' ? `${'#'.repeat(level)} ` : ''
+                    }${text}${blockBreak}`;
+                break;
+            }
+
+            case 'ul':
+            case 'ol':
+                output += `${blockBreak}${renderList(
+                    node,
+                    format
+                )}${blockBreak}`;
+                break;
+
+            case 'table':
+                output += `${blockBreak}${renderTable(
+                    node,
+                    format
+                )}${blockBreak}`;
+                break;
+
+            default:
+                output += blockTags.includes(node.name)
+                    ? `${blockBreak}${content()}${blockBreak}`
+                    : content();
+        }
+    }
+
+    return output;
+};
+
+/**
+ * Turn the line break and block boundary marks of rendered text into line breaks, removing the whitespace around them
+ *
+ * @param text   - The rendered text
+ * @param format - The format the text was rendered to
+ *
+ * @returns The finished text
+ */
+const normalize = (text: string, format: DescriptionFormat): string =>
+    text
+        .replace(/ *[\uE000\uE001][\uE000\uE001 ]*/g, (marks) =>
+            // A single line break stays, but several of them or a block boundary start a new paragraph
+            marks.includes(blockBreak) || marks.split(lineBreak).length > 2
+                ? '\n\n'
+                : format === 'markdown'
+                ? '  \n'
+                : '\n'
+        )
+        .trim();
+
+/**
+ * Render a list, indenting the items so that their content lines up after the bullet or number
+ *
+ * @param list   - The ul or ol element
+ * @param format - The format to render to
+ *
+ * @returns The rendered list, with one item per line
+ */
+const renderList = (
+    list: cheerio.TagElement,
+    format: DescriptionFormat
+): string => {
+    const items = list.children.filter(
+        (child): child is cheerio.TagElement =>
+            isTag(child) && child.name === 'li'
+    );
+
+    return items
+        .map((item, i) => {
+            const bullet = list.name === 'ol' ? `${i + 1}. ` : '- ';
+
+            return normalize(render(item.children, format), format)
+                .replace(/\n\n/g, '\n') // Keep the items compact
+                .split('\n')
+                .map((line, j) =>
+                    j === 0
+                        ? `${bullet}${line}`
+                        : `${' '.repeat(bullet.length)}${line}`
+                )
+                .join('\n');
+        })
+        .join('\n');
+};
+
+/**
+ * Render a table, with the first row as the header row in Markdown
+ *
+ * @param table  - The table element
+ * @param format - The format to render to
+ *
+ * @returns The rendered table, with one row per line
+ */
+const renderTable = (
+    table: cheerio.TagElement,
+    format: DescriptionFormat
+): string => {
+    const $ = cheerio.load('');
+
+    const rows = $(table)
+        .find('tr')
+        .get()
+        .filter(
+            // Skip the rows of nested tables, which are rendered inside their cells
+            (row: cheerio.TagElement) =>
+                $(row).closest('table').get(0) === table
+        )
+        .map((row: cheerio.TagElement) =>
+            row.children
+                .filter(
+                    (cell): cell is cheerio.TagElement =>
+                        isTag(cell) &&
+                        (cell.name === 'td' || cell.name === 'th')
+                )
+                .map((cell) =>
+                    normalize(render(cell.children, format), format)
+                        .replace(/ {2}\n|\n+/g, ' ') // Cells have to fit on a single line
+                        .trim()
+                )
+        )
+        .filter((cells: string[]) => cells.length !== 0);
+
+    if (rows.length === 0) return '';
+
+    if (format === 'text')
+        return rows.map((cells: string[]) => cells.join(' | ')).join('\n');
+
+    const columns = Math.max(...rows.map((cells: string[]) => cells.length));
+    const line = (cells: string[]) =>
+        `| ${Array.from({ length: columns }, (_, i) => cells[i] ?? '').join(
+            ' | '
+        )} |`;
+
+    return [
+        line(rows[0]),
+        line(Array.from({ length: columns }, () => '---')),
+        ...rows.slice(1).map(line),
+    ].join('\n');
+};
+
+/**
+ * Serialize the nodes of a description to HTML, keeping only the allowed tags and attributes
+ *
+ * @param nodes - The nodes to serialize
+ *
+ * @returns The sanitized HTML
+ */
+const serialize = (nodes: cheerio.Element[]): string =>
+    nodes
+        .map((node) => {
+            if (node.type === 'text') return escapeHtml(node.data ?? '');
+
+            if (!isTag(node) || droppedTags.includes(node.name)) return '';
+
+            const content = serialize(node.children);
+            const attributes = allowedTags[node.name];
+
+            // Links that don't go anywhere safe are kept as plain text
+            if (
+                !attributes ||
+                (node.name === 'a' && !isSafeHref(node.attribs.href))
+            )
+                return content;
+
+            const kept = attributes
+                .filter((name) =>
+                    name === 'href'
+                        ? isSafeHref(node.attribs.href)
+                        : /^\d+$/.test(node.attribs[name] ?? '')
+                )
+                .map(
+                    (name) =>
+                        ` ${name}="${escapeHtml(node.attribs[name].trim())}"`
+                )
+                .join('');
+
+            return node.name === 'br'
+                ? '<br>'
+                : `<${node.name}${kept}>${content}</${node.name}>`;
+        })
+        .join('');
+
+/**
+ * Sanitize the HTML of a description, keeping only paragraphs, line breaks, lists, tables, headings, text formatting and links to web pages or email addresses.
+ * Styles, classes, scripts and other tags are removed, so the result is safe to show on a web page.
+ *
+ * @param html - The description HTML, for example the `description` of a notice
+ *
+ * @returns The sanitized HTML
+ */
+export const sanitizeDescription = (html: string): string =>
+    serialize(parseNodes(html)).trim();
+
+/**
+ * Convert the HTML of a description to plain text. Paragraphs are separated by empty lines, list items start with a bullet or number, table cells are separated by `|`
+ * and links are followed by their address.
+ *
+ * @param html - The description HTML, for example the `description` of a notice
+ *
+ * @returns The description as plain text
+ */
+export const descriptionToText = (html: string): string =>
+    normalize(render(parseNodes(html), 'text'), 'text');
+
+/**
+ * Convert the HTML of a description to Markdown, with lists, tables, headings, bold and italic text and links. Any Markdown syntax in the text itself is escaped.
+ *
+ * @param html - The description HTML, for example the `description` of a notice
+ *
+ * @returns The description as Markdown
+ */
+export const descriptionToMarkdown = (html: string): string =>
+    normalize(render(parseNodes(html), 'markdown'), 'markdown');
@@ -0,0 +1,207 @@
+import cheerio from 'cheerio';
+
+import { parseAttachmentLinks } from './attachment';
+import { defaultClient, TarjouspalveluClient } from './client';
+import { descriptionToMarkdown, descriptionToText } from './description';
+import { NetworkError, SessionExpiredError } from './errors';
+import {
+    ClientResponse,
+    DynamicPurchasingSystemDetails,
+    Session,
+} from './interfaces';
+import { handleTenderCleanup, TenderCleanupBatch } from './tender';
+import { matchLocale, parseLocalizedDate } from './utilities';
+
+/**
+ * Parse a dynamic purchasing system from its pages, without fetching anything
+ *
+ * @param dpsId           - ID of the dynamic purchasing system
+ * @param dpsHtml         - HTML of the full page (tpKasittely.aspx), used for detecting the language
+ * @param detailsHtml     - HTML of the details page (tpReferal.aspx)
+ * @param attachmentsHtml - HTML of the attachments page (TarjousPyyntoLiitteet.aspx)
+ * @param url             - URL of the full page, used for detecting the language
+ *
+ * @returns Details of the given dynamic purchasing system
+ */
+export const parseDynamicPurchasingSystemDetails = (
+    dpsId: number,
+    dpsHtml: string,
+    detailsHtml: string,
+    attachmentsHtml: string,
+    url?: string
+): DynamicPurchasingSystemDetails => {
+    const locale = matchLocale(dpsHtml, url);
+
+    // Initialize cheerio with the details page
+    const d = cheerio.load(detailsHtml);
+
+    // Parse an optional date field, which exists on the page even if it's empty
+    const parseOptionalDate = (selector: string) => {
+        const text = d(selector).text().trim();
+
+        return {
+            date:
+                text.length !== 0
+                    ? parseLocalizedDate(text, locale, url, selector)
+                    : null,
+            original: text.length !== 0 ? text : null,
+        };
+    };
+
+    const description = d('#valKuvaus').html()?.toString() ?? null; // If there's no description return null
+
+    const validFrom = parseOptionalDate('#valVoimassaAlkaen');
+    const validUntil = parseOptionalDate('#valDueDate');
+
+    return {
+        id: dpsId,
+
+        customId: d('#valHankTunniste').text(),
+
+        unit: d('#valHankYksMarkNimi').text(),
+
+        title: d('#valHankNimi').text(),
+
+        published: parseLocalizedDate(
+            d('#valIlmPaiva').text(),
+            locale,
+            url,
+            '#valIlmPaiva'
+        ),
+
+        originalPublished: d('#valIlmPaiva').text(),
+
+        validFrom: validFrom.date,
+
+        originalValidFrom: validFrom.original,
+
+        validUntil: validUntil.date,
+
+        originalValidUntil: validUntil.original,
+
+        description,
+
+        descriptionText:
+            description !== null ? descriptionToText(description) : null,
+
+        descriptionMarkdown:
+            description !== null ? descriptionToMarkdown(description) : null,
+
+        categories: d('#valKategoriat li')
+            .map((_i, el) => d(el).text().trim())
+            .get(),
+
+        ...parseAttachmentLinks(attachmentsHtml),
+    };
+};
+
+/**
+ * Get a single dynamic purchasing system of a company.
+ *
+ * @param companyId - ID of the company of the dynamic purchasing system to get
+ * @param dpsId     - ID of the dynamic purchasing system to get
+ * @param session   - The Session object to be used for getting the dynamic purchasing system. **MUST be logged in.**
+ * @param cleanup   - Whether to remove the automatically generated application after getting the details from it, or a `TenderCleanupBatch` to remove it later with. Defaults to true.
+ * The application is removed even if getting the details fails, and the `cleanup` of the result or of the thrown error tells what happened to it.
+ * @param client    - The client to send the requests with. Defaults to the default client.
+ *
+ * @returns Details of the given dynamic purchasing system
+ *
+ * @beta
+ */
+export const getDynamicPurchasingSystem = async (
+    companyId: number,
+    dpsId: number,
+    session: Session,
+    cleanup: boolean | TenderCleanupBatch = true,
+    client: TarjouspalveluClient = defaultClient
+): Promise<DynamicPurchasingSystemDetails> => {
+    // Load a dynamic purchasing system page with the logged in session, checking that the session was accepted
+    const loadPage = async (
+        operation: string,
+        path: string
+    ): Promise<ClientResponse> => {
+        const response = await client.request({
+            operation,
+            path,
+            session,
+            headers: {
+                Cookie: `ASP.NET_SessionId_TP=${session.id}; TarjPalv=${session.token};`,
+            },
+        });
+
+        if (response.status === 302)
+            throw new SessionExpiredError(
+                'Failed to load dynamic purchasing system, bad session?',
+                response.url
+            );
+        else if (response.status !== 200)
+            throw new NetworkError(
+                'Failed to load dynamic purchasing system',
+                response.status,
+                response.url
+            );
+
+        return response;
+    };
+
+    let dps: DynamicPurchasingSystemDetails;
+
+    try {
+        // Dynamic purchasing systems use the same pages as notices, and the ID has to be stored in the session by opening the full page first
+        const dpsPage = await loadPage(
+            'getDynamicPurchasingSystem.dps',
+            `/Tarjouspalvelu/tpKasittely.aspx?p=${companyId}&g=${session.uuid}&tpID=${dpsId}`
+        );
+
+        const [detailsResponse, attachmentsResponse] = await Promise.all([
+            // Details page
+            loadPage(
+                'getDynamicPurchasingSystem.details',
+                `/Tarjouspalvelu/tpReferal.aspx?g=${session.uuid}&tpID=${dpsId}`
+            ),
+
+            // Attachments page
+            loadPage(
+                'getDynamicPurchasingSystem.attachments',
+                `/Tarjouspalvelu/TarjousPyyntoLiitteet.aspx?g=${session.uuid}&tpID=${dpsId}`
+            ),
+        ]);
+
+        dps = client.parse('getDynamicPurchasingSystem', dpsPage.url, () =>
+            parseDynamicPurchasingSystemDetails(
+                dpsId,
+                dpsPage.data,
+                detailsResponse.data,
+                attachmentsResponse.data,
+                dpsPage.url
+            )
+        );
+    } catch (error) {
+        // The application may have been created even if getting the details failed, so it's removed regardless, and the error tells what happened to it
+        if (error instanceof Error)
+            Object.assign(error, {
+                cleanup: await handleTenderCleanup(
+                    cleanup,
+                    companyId,
+                    dpsId,
+                    session,
+                    client
+                ),
+            });
+
+        throw error;
+    }
+
+    // Remove the application that got automatically created when getting the details, unless the cleanup parameter says otherwise
+    return {
+        ...dps,
+        cleanup: await handleTenderCleanup(
+            cleanup,
+            companyId,
+            dpsId,
+            session,
+            client
+        ),
+    };
+};
@@ -0,0 +1,141 @@
+import { redactUrl } from './hooks';
+import { NoticeQuery, TenderCleanup } from './interfaces';
+
+/**
+ * Base class of all errors thrown by the library
+ */
+export class TarjouspalveluError extends Error {
+    /**
+     * What happened to the automatically created tender, if the error was thrown while getting the details of a notice or dynamic purchasing system
+     */
+    cleanup?: TenderCleanup;
+
+    /**
+     * Why restoring the language of the session failed, if the error was thrown by `getNoticeMultilingual` and the language couldn't be restored either
+     */
+    restoreError?: Error;
+
+    constructor(message: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * Thrown when a request fails, or the site responds with an unexpected HTTP status
+ */
+export class NetworkError extends TarjouspalveluError {
+    /**
+     * URL of the failed request, without the session UUID
+     */
+    readonly url?: string;
+
+    /**
+     * @param message - Description of the failure
+     * @param status  - HTTP status of the response, undefined if no response was received
+     * @param url     - URL of the failed request
+     * @param cause   - The underlying error of the transport, if any
+     */
+    constructor(
+        message: string,
+        readonly status?: number,
+        url?: string,
+        readonly cause?: unknown
+    ) {
+        super(message);
+        this.url = url && redactUrl(url);
+    }
+}
+
+/**
+ * Thrown when the site redirects away from a page, which happens when the session has expired or was never valid
+ */
+export class SessionExpiredError extends TarjouspalveluError {
+    /**
+     * URL of the page that redirected, without the session UUID
+     */
+    readonly url?: string;
+
+    /**
+     * @param message - Description of the failure
+     * @param url     - URL of the page that redirected
+     */
+    constructor(message: string, url?: string) {
+        super(message);
+        this.url = url && redactUrl(url);
+    }
+}
+
+/**
+ * Thrown when logging in fails, usually because of a bad username or password
+ */
+export class LoginFailedError extends TarjouspalveluError {}
+
+/**
+ * Thrown when a company slug doesn't exist on the site
+ */
+export class InvalidCompanySlugError extends TarjouspalveluError {
+    /**
+     * @param slug - The slug that was not found
+     */
+    constructor(readonly slug: string) {
+        super(`Invalid company slug: ${slug}`);
+    }
+}
+
+/**
+ * Thrown when a notice query has a condition that can't be matched, such as a deadline that isn't a date
+ */
+export class InvalidQueryError extends TarjouspalveluError {
+    /**
+     * @param field - The field of the query that is invalid
+     * @param value - The invalid value of the field
+     */
+    constructor(readonly field: keyof NoticeQuery, readonly value: unknown) {
+        super(`Invalid ${field} in notice query: ${value}`);
+    }
+}
+
+/**
+ * Thrown when a page or response doesn't have the expected structure, usually because the site has changed
+ */
+export class ParseError extends TarjouspalveluError {
+    /**
+     * URL of the page that was being parsed, without the session UUID
+     */
+    readonly url?: string;
+
+    /**
+     * @param message  - Description of the failure
+     * @param selector - The selector, header or pattern that failed to match
+     * @param url      - URL of the page that was being parsed
+     */
+    constructor(message: string, readonly selector?: string, url?: string) {
+        super(message);
+        this.url = url && redactUrl(url);
+    }
+}
+
+/**
+ * Thrown when no tender in progress is found for a notice
+ */
+export class TenderNotFoundError extends TarjouspalveluError {
+    /**
+     * @param noticeId - ID of the notice the tender was looked up with
+     */
+    constructor(readonly noticeId: number) {
+        super(`No tenders in progress found for notice ${noticeId}`);
+    }
+}
+
+/**
+ * Thrown when the site refuses to remove a tender in progress
+ */
+export class TenderRemovalError extends TarjouspalveluError {
+    /**
+     * @param tenderId - ID of the tender that failed to be removed
+     */
+    constructor(readonly tenderId: string) {
+        super(`Error removing tender ${tenderId}`);
+    }
+}
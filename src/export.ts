@@ -0,0 +1,290 @@
+import addDays from 'date-fns/addDays';
+import format from 'date-fns/format';
+import { utcToZonedTime } from 'date-fns-tz';
+
+import { defaultClient } from './client';
+import {
+    Company,
+    CompanyNotices,
+    DynamicPurchasingSystem,
+    ICalendarOptions,
+    Notice,
+    Notices,
+    SupplierRegister,
+    WatchedItemType,
+} from './interfaces';
+import { buildNoticeLink } from './utilities';
+
+interface ExportItem {
+    itemType: WatchedItemType;
+    item: Notice | DynamicPurchasingSystem | SupplierRegister;
+    company?: Company;
+}
+
+// Columns of the CSV export, in order. New columns are only ever added to the end, so that spreadsheets built on the export keep working.
+const csvColumns = [
+    'itemType',
+    'id',
+    'customId',
+    'unit',
+    'title',
+    'flags',
+    'types',
+    'shortDescription',
+    'isBeingCorrected',
+    'deadline',
+    'originalDeadline',
+    'published',
+    'originalPublished',
+] as const;
+
+/**
+ * Get the items to export from a Notices object
+ *
+ * @param notices - The Notices object from `getNotices`
+ * @param company - The company of the notices, if known
+ *
+ * @returns The notices, dynamic purchasing systems and supplier registers with their types
+ */
+const noticesToItems = (notices: Notices, company?: Company): ExportItem[] => [
+    ...notices.notices.map(
+        (item): ExportItem => ({ itemType: 'notice', item, company })
+    ),
+    ...notices.dynamicPurchasingSystems.map(
+        (item): ExportItem => ({
+            itemType: 'dynamicPurchasingSystem',
+            item,
+            company,
+        })
+    ),
+    ...notices.supplierRegisters.map(
+        (item): ExportItem => ({ itemType: 'supplierRegister', item, company })
+    ),
+];
+
+/**
+ * Get the items to export from a Notices object, a list of notices, or the notices of many companies
+ *
+ * @param input - The Notices object from `getNotices`, a list of notices from `getNotice`, or the notices of many companies, such as the results of `crawlNotices`
+ *
+ * @returns The items to export with their types, and their companies if the input had them
+ */
+const toItems = (input: Notices | Notice[] | CompanyNotices[]): ExportItem[] =>
+    Array.isArray(input)
+        ? (input as (Notice | CompanyNotices)[]).reduce<ExportItem[]>(
+              (all, item) =>
+                  'company' in item
+                      ? [
+                            ...all,
+                            ...(item.notices
+                                ? noticesToItems(item.notices, item.company)
+                                : []),
+                        ]
+                      : [...all, { itemType: 'notice', item }],
+              []
+          )
+        : noticesToItems(input);
+
+const isValidDate = (date: Date | null | undefined): date is Date =>
+    date instanceof Date && !isNaN(date.getTime());
+
+/**
+ * Get the values of the CSV columns of an item
+ *
+ * @param exportItem - The item to get the values of
+ *
+ * @returns The values in the order of the columns
+ */
+const toCsvValues = ({ itemType, item }: ExportItem): string[] => {
+    const notice = item as Partial<Notice>;
+
+    const values: Record<typeof csvColumns[number], string> = {
+        itemType,
+        id: item.id.toString(),
+        customId: item.customId,
+        unit: item.unit,
+        title: item.title,
+        flags: (notice.flags ?? []).join('; '),
+        types: (notice.types ?? []).join('; '),
+        shortDescription: item.shortDescription ?? '',
+        isBeingCorrected:
+            item.isBeingCorrected === undefined
+                ? ''
+                : item.isBeingCorrected.toString(),
+        deadline: isValidDate(item.deadline) ? item.deadline.toISOString() : '',
+        originalDeadline: item.originalDeadline ?? '',
+        published: isValidDate(notice.published)
+            ? notice.published.toISOString()
+            : '',
+        originalPublished: notice.originalPublished ?? '',
+    };
+
+    return csvColumns.map((column) => values[column]);
+};
+
+/**
+ * Export notices to CSV, with a header row and the same columns regardless of the input. Dates are in ISO 8601 format in UTC, next to the original text from the page.
+ *
+ * @param input - The Notices object from `getNotices`, including the dynamic purchasing systems and supplier registers, or a list of notices from `getNotice`
+ *
+ * @returns The CSV text
+ */
+export const noticesToCsv = (input: Notices | Notice[]): string => {
+    const quote = (text: string) =>
+        /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+    return [csvColumns.slice(), ...toItems(input).map(toCsvValues)]
+        .map((values) => values.map(quote).join(','))
+        .map((line) => `${line}\r\n`)
+        .join('');
+};
+
+/**
+ * Export notices to JSON Lines, with one JSON object per line
+ *
+ * @param input - The Notices object from `getNotices`, including the dynamic purchasing systems and supplier registers, or a list of notices from `getNotice`
+ *
+ * @returns The JSON Lines text
+ */
+export const noticesToJsonLines = (input: Notices | Notice[]): string =>
+    toItems(input)
+        .map(
+            ({ itemType, item }) => `${JSON.stringify({ itemType, ...item })}\n`
+        )
+        .join('');
+
+/**
+ * Escape a text value of an iCalendar property
+ *
+ * @param text - The text to escape
+ *
+ * @returns The escaped text
+ */
+const escapeICalendarText = (text: string): string =>
+    text
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+
+/**
+ * Fold an iCalendar content line so that no line is longer than 75 octets
+ *
+ * @param line - The line to fold
+ *
+ * @returns The folded line
+ */
+const foldICalendarLine = (line: string): string => {
+    const lines: string[] = [];
+    let current = '';
+
+    for (const character of line) {
+        // Continuation lines start with a space, which counts towards their length
+        const limit = lines.length === 0 ? 75 : 74;
+
+        if (Buffer.byteLength(current + character) > limit) {
+            lines.push(current);
+            current = '';
+        }
+
+        current += character;
+    }
+
+    lines.push(current);
+
+    return lines.join('\r\n ');
+};
+
+/**
+ * Format a date as an iCalendar UTC date-time
+ *
+ * @param date - The date to format
+ *
+ * @returns The date in the format 20210131T120000Z
+ */
+const formatICalendarDate = (date: Date): string =>
+    date
+        .toISOString()
+        .replace(/[-:]/g, '')
+        .replace(/\.\d{3}/, '');
+
+/**
+ * Format the day of a date in Helsinki time as an iCalendar date, as the site gives the deadlines without a time in it
+ *
+ * @param date - The date to format
+ * @param days - Number of days to add to the date
+ *
+ * @returns The date in the format 20210131
+ */
+const formatICalendarDay = (date: Date, days = 0): string =>
+    format(addDays(utcToZonedTime(date, 'Europe/Helsinki'), days), 'yyyyMMdd');
+
+/**
+ * Export the deadlines of notices to an iCalendar (.ics) feed. Each notice with a deadline becomes an event at the deadline, linking back to the notice.
+ * A deadline without a time becomes an all-day event.
+ *
+ * @param input   - The Notices object from `getNotices`, including the dynamic purchasing systems and supplier registers, a list of notices from `getNotice`,
+ * or the notices of many companies, such as the results of `crawlNotices`
+ * @param options - The slug of the company of the notices for building the links when the input doesn't have the companies, the name of the calendar, and the client to build the links for
+ *
+ * @returns The iCalendar text
+ */
+export const noticesToICalendar = (
+    input: Notices | Notice[] | CompanyNotices[],
+    options: ICalendarOptions = {}
+): string => {
+    const client = options.client ?? defaultClient;
+    const stamp = formatICalendarDate(new Date());
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//tarjouspalvelu.js//Deadlines//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        ...(options.calendarName
+            ? [`X-WR-CALNAME:${escapeICalendarText(options.calendarName)}`]
+            : []),
+    ];
+
+    for (const { itemType, item, company } of toItems(input)) {
+        if (!isValidDate(item.deadline)) continue;
+
+        const slug = company?.slug ?? options.companySlug;
+
+        const link =
+            slug !== undefined
+                ? buildNoticeLink(slug, item.id, client)
+                : undefined;
+
+        const description = [item.unit, item.customId, link]
+            .filter((part) => part)
+            .join('\n');
+
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${itemType}-${item.id}@tarjouspalvelu.fi`,
+            `DTSTAMP:${stamp}`,
+            ...(item.deadlineHasTime === false
+                ? [
+                      `DTSTART;VALUE=DATE:${formatICalendarDay(item.deadline)}`,
+                      `DTEND;VALUE=DATE:${formatICalendarDay(
+                          item.deadline,
+                          1
+                      )}`,
+                  ]
+                : [
+                      `DTSTART:${formatICalendarDate(item.deadline)}`,
+                      `DTEND:${formatICalendarDate(item.deadline)}`,
+                  ]),
+            `SUMMARY:${escapeICalendarText(item.title)}`,
+            `DESCRIPTION:${escapeICalendarText(description)}`,
+            ...(link ? [`URL:${link}`] : []),
+            'END:VEVENT'
+        );
+    }
+
+    lines.push('END:VCALENDAR');
+
+    return lines.map((line) => `${foldICalendarLine(line)}\r\n`).join('');
+};
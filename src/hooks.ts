@@ -0,0 +1,122 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { ResponseHeaders, Session } from './interfaces';
+
+const redacted = '[redacted]';
+
+/**
+ * Redact the session UUID from a URL, so that it can be logged
+ *
+ * @param url - The URL to redact
+ *
+ * @returns The URL without the session UUID
+ */
+export const redactUrl = (url: string): string =>
+    url.replace(/([?&]g=)[^&#]*/gi, `$1${redacted}`);
+
+/**
+ * Redact the cookies, credentials and session UUIDs from request or response headers, so that they can be logged
+ *
+ * @param headers - The headers to redact
+ *
+ * @returns A copy of the headers without the secrets
+ */
+export const redactHeaders = <T extends ResponseHeaders>(headers: T): T => {
+    const redactValue = (name: string, value: string): string => {
+        switch (name.toLowerCase()) {
+            case 'cookie':
+                return value.replace(/=[^;]*/g, `=${redacted}`);
+            case 'set-cookie':
+                return value.replace(/^([^=]*)=[^;]*/, `$1=${redacted}`); // Only the value, the attributes aren't secret
+            case 'authorization':
+            case 'proxy-authorization':
+                return redacted;
+            case 'location':
+            case 'referer':
+                return redactUrl(value);
+        }
+
+        return value;
+    };
+
+    return Object.keys(headers).reduce((result, name) => {
+        const value = headers[name];
+
+        return {
+            ...result,
+            [name]: Array.isArray(value)
+                ? value.map((item) => redactValue(name, item))
+                : value !== undefined
+                ? redactValue(name, value)
+                : value,
+        };
+    }, {} as T);
+};
+
+/**
+ * Copy an error of the transport without the request it was thrown for, so that it can be logged.
+ * Axios errors carry the whole request config, including the cookies and the URL with the session UUID.
+ *
+ * @param error - The error to redact
+ *
+ * @returns A plain error with the name, message, stack and code of the original, with the session UUIDs redacted
+ */
+export const redactError = (error: unknown): Error => {
+    const source = error instanceof Error ? error : new Error(String(error));
+    const code = (source as { code?: unknown }).code;
+
+    const copy = new Error(redactUrl(source.message));
+    copy.name = source.name;
+    copy.stack = source.stack && redactUrl(source.stack);
+
+    return code !== undefined ? Object.assign(copy, { code }) : copy;
+};
+
+let debugPageCount = 0;
+
+/**
+ * Write a page to the debug directory, with a comment telling where it's from. The session identifiers are redacted from the page.
+ *
+ * @param directory - The directory to write the page to
+ * @param operation - The operation the page was loaded for, used in the file name
+ * @param url       - The URL of the page
+ * @param status    - The status code of the response
+ * @param html      - The page
+ * @param session   - The session the page was loaded with
+ *
+ * @returns Path of the written file
+ */
+export const writeDebugPage = async (
+    directory: string,
+    operation: string,
+    url: string,
+    status: number,
+    html: string,
+    session?: Session
+): Promise<string> => {
+    const file = path.join(
+        directory,
+        `${Date.now()}-${++debugPageCount}-${operation.replace(
+            /[^\w.-]+/g,
+            '_'
+        )}.html`
+    );
+
+    const secrets = [session?.uuid, session?.id, session?.token].filter(
+        (secret): secret is string => !!secret
+    );
+
+    const page = secrets.reduce(
+        (redactedHtml, secret) => redactedHtml.split(secret).join(redacted),
+        html
+    );
+
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(
+        file,
+        `<!-- ${operation}: ${redactUrl(url)} (${status}) -->\n${page}`
+    );
+
+    return file;
+};
@@ -1,5 +1,22 @@
 export * from './interfaces';
 export * from './utilities';
+export * from './session';
 export * from './company';
+export * from './logo';
 export * from './notice';
+export * from './dps';
+export * from './register';
 export * from './tender';
+export * from './attachment';
+export * from './client';
+export * from './errors';
+export * from './watcher';
+export * from './crawler';
+export * from './export';
+export * from './description';
+export * from './registry';
+export * from './query';
+export * from './labels';
+export * from './cache';
+export * from './retry';
+export * from './hooks';
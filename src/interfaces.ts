@@ -1,7 +1,16 @@
+import { Readable } from 'stream';
+
+import type { TarjouspalveluClient } from './client';
+
 export interface Session {
     uuid: string;
     id: string;
     token?: string;
+    companyId?: number;
+    language?: Language;
+    username?: string;
+    createdAt?: Date;
+    lastUsed?: Date;
 }
 
 export enum Language {
@@ -15,11 +24,32 @@ export interface Company {
     id: number;
     slug: string;
     name: string;
-    logo: string | undefined;
+    logo: CompanyLogo | undefined;
+    logoPath?: string;
+}
+
+export interface CompanyLogo {
+    mimeType: string;
+    data: Buffer;
+    base64: string;
+    sourceUrl: string;
+}
+
+export interface CompanyLogoOptions {
+    concurrency?: number;
+    cacheDirectory?: string;
+    cacheMaxAge?: number;
+}
+
+export interface CompanyLogoResult {
+    company: Company;
+    logo?: CompanyLogo;
+    error?: Error;
 }
 
 export interface Notices {
-    // supplierRegisters: [];
+    supplierRegisters: SupplierRegister[];
+    supplierRegistersError?: Error;
     dynamicPurchasingSystems: DynamicPurchasingSystem[];
     notices: Notice[];
     language: Language;
@@ -34,9 +64,59 @@ export interface DynamicPurchasingSystem {
     additionalDesc: string | undefined;
     isBeingCorrected: boolean;
     deadline: Date | null;
+    deadlineHasTime: boolean | null;
+    originalDeadline: string | null;
+}
+
+export interface SupplierRegister {
+    id: number;
+    customId: string;
+    unit: string;
+    title: string;
+    shortDescription: string;
+    additionalDesc: string | undefined;
+    isBeingCorrected: boolean;
+    deadline: Date | null;
+    deadlineHasTime: boolean | null;
     originalDeadline: string | null;
 }
 
+export interface SupplierRegisterDetails {
+    id: number;
+    customId: string;
+    unit: string;
+    title: string;
+    published: Date;
+    originalPublished: string;
+    validUntil: Date | null;
+    originalValidUntil: string | null;
+    description: string | null;
+    descriptionText: string | null;
+    descriptionMarkdown: string | null;
+    attachments: NoticeAttachment[];
+    links: string[];
+}
+
+export interface DynamicPurchasingSystemDetails {
+    id: number;
+    customId: string;
+    unit: string;
+    title: string;
+    published: Date;
+    originalPublished: string;
+    validFrom: Date | null;
+    originalValidFrom: string | null;
+    validUntil: Date | null;
+    originalValidUntil: string | null;
+    description: string | null;
+    descriptionText: string | null;
+    descriptionMarkdown: string | null;
+    categories: string[];
+    attachments: NoticeAttachment[];
+    links: string[];
+    cleanup?: TenderCleanup;
+}
+
 export interface Notice {
     id: number;
     customId: string;
@@ -44,23 +124,440 @@ export interface Notice {
     published?: Date;
     originalPublished?: string;
     deadline: Date | null;
+    deadlineHasTime: boolean | null;
     originalDeadline: string | null;
     unit: string;
     title: string;
-    flags: string[];
-    types: string[];
+    flags: NoticeFlag[];
+    originalFlags: string[];
+    types: NoticeType[];
+    originalTypes: string[];
     shortDescription?: string;
     description?: string | null;
     attachments?: NoticeAttachment[];
     links?: string[];
-    /* procedure: string; @TODO: do some logic that checks if it's a tender notice and then get these tender-specific fields
-    partialTendersAccepted: boolean;
-    alternativeTendersAccepted: boolean;
-    reservedForWorkCenters: boolean;
-    selectionCriteria: string; */
+}
+
+export enum NoticeFlag {
+    EuThreshold = 'euThreshold',
+    National = 'national',
+    SmallProcurement = 'smallProcurement',
+    ElectronicTendering = 'electronicTendering',
+    Unknown = 'unknown',
+}
+
+export enum NoticeType {
+    Supplies = 'supplies',
+    Services = 'services',
+    Works = 'works',
+    ContractNotice = 'contractNotice',
+    ContractAwardNotice = 'contractAwardNotice',
+    PriorInformationNotice = 'priorInformationNotice',
+    Unknown = 'unknown',
+}
+
+export enum NoticeKind {
+    Contract = 'contract',
+    Award = 'award',
+    PriorInformation = 'priorInformation',
+}
+
+export interface NoticeDetailsBase extends Notice {
+    published: Date;
+    originalPublished: string;
+    description: string | null;
+    descriptionText: string | null;
+    descriptionMarkdown: string | null;
+    authorityType: string;
+    category: string;
+    attachments: NoticeAttachment[];
+    links: string[];
+    cleanup?: TenderCleanup;
+}
+
+export interface ContractNotice extends NoticeDetailsBase {
+    kind: NoticeKind.Contract;
+    procedure: string;
+    partialTendersAccepted: boolean | null;
+    alternativeTendersAccepted: boolean | null;
+    reservedForWorkCenters: boolean | null;
+    selectionCriteria: string;
+}
+
+export interface AwardNotice extends NoticeDetailsBase {
+    kind: NoticeKind.Award;
+    procedure: string;
+    winner?: string;
+    value?: string;
+}
+
+export interface PriorInformationNotice extends NoticeDetailsBase {
+    kind: NoticeKind.PriorInformation;
+}
+
+export type NoticeDetails =
+    | ContractNotice
+    | AwardNotice
+    | PriorInformationNotice;
+
+export interface MultilingualNotice {
+    notices: Partial<Record<Language, NoticeDetails>>;
+    title: Partial<Record<Language, string>>;
+    description: Partial<Record<Language, string | null>>;
+    types: Partial<Record<Language, string[]>>;
+    unit: Partial<Record<Language, string>>;
+    distinctLanguages: Language[];
+    cleanup?: TenderCleanup;
 }
 
 export interface NoticeAttachment {
     fileName: string;
     fileUuid: string;
 }
+
+export interface AttachmentLinks {
+    attachments: NoticeAttachment[];
+    links: string[];
+}
+
+export interface ClientOptions {
+    baseUrl?: string;
+    headers?: Record<string, string>;
+    userAgent?: string;
+    timeout?: number;
+    transport?: Transport;
+    manageSessions?: boolean;
+    cache?: boolean | ResponseCacheOptions;
+    retry?: RetryPolicy | false;
+    hooks?: ClientHooks;
+    debugDirectory?: string;
+}
+
+export interface ClientHooks {
+    onRequest?: (event: RequestHookEvent) => void;
+    onResponse?: (event: ResponseHookEvent) => void;
+    onError?: (event: ErrorHookEvent) => void;
+    onParse?: (event: ParseHookEvent) => void;
+}
+
+export interface RequestHookEvent {
+    operation: string;
+    method: HttpMethod;
+    url: string;
+    requestHeaders: Record<string, string>;
+    attempt: number;
+}
+
+export interface ResponseHookEvent extends RequestHookEvent {
+    status: number;
+    responseHeaders: ResponseHeaders;
+    redirect?: string;
+    bytes?: number;
+    duration: number;
+    cached: boolean;
+    willRetry: boolean;
+}
+
+export interface ErrorHookEvent extends RequestHookEvent {
+    error: Error;
+    duration: number;
+    willRetry: boolean;
+}
+
+export interface ParseHookEvent {
+    operation: string;
+    url?: string;
+    duration: number;
+    error?: Error;
+}
+
+export type HttpMethod = 'GET' | 'HEAD' | 'POST';
+
+export interface RetryPolicy {
+    retries?: number;
+    minDelay?: number;
+    maxDelay?: number;
+    factor?: number;
+    jitter?: boolean;
+    statuses?: number[];
+    methods?: HttpMethod[];
+    respectRetryAfter?: boolean;
+}
+
+export enum CacheEndpoint {
+    Companies = 'companies',
+    CompanySlug = 'companySlug',
+    Notices = 'notices',
+}
+
+export interface ResponseCacheOptions {
+    store?: ResponseCacheStore;
+    ttl?: Partial<Record<CacheEndpoint, number>>;
+    sessionPages?: boolean;
+}
+
+export interface CachedResponse {
+    status: number;
+    headers: ResponseHeaders;
+    data: string;
+}
+
+export interface ResponseCacheStore {
+    get(key: string): Promise<CachedResponse | undefined>;
+    set(key: string, response: CachedResponse, ttl: number): Promise<void>;
+}
+
+export type Transport = (
+    request: TransportRequest
+) => Promise<TransportResponse>;
+
+export interface TransportRequest {
+    method: HttpMethod;
+    url: string;
+    headers: Record<string, string>;
+    data?: string;
+    timeout: number;
+    stream?: boolean;
+}
+
+export interface TransportResponse {
+    status: number;
+    headers: ResponseHeaders;
+    data: Buffer;
+    stream?: Readable;
+}
+
+export type ResponseHeaders = Record<string, string | string[] | undefined>;
+
+export interface ClientRequest {
+    method?: HttpMethod;
+    path: string;
+    session?: Session;
+    headers?: Record<string, string>;
+    data?: string;
+    timeout?: number;
+    cache?: CacheEndpoint;
+    retry?: RetryPolicy | false;
+    idempotent?: boolean;
+    operation?: string;
+}
+
+export interface ClientResponse {
+    url: string;
+    status: number;
+    headers: ResponseHeaders;
+    data: string;
+}
+
+export interface ClientStreamResponse {
+    url: string;
+    status: number;
+    headers: ResponseHeaders;
+    stream: Readable;
+}
+
+export interface AttachmentDownload {
+    fileName: string;
+    contentType: string;
+    data: Buffer;
+}
+
+export interface AttachmentStream {
+    fileName: string;
+    contentType: string;
+    stream: Readable;
+}
+
+export interface SaveAttachmentsOptions {
+    extract?: boolean;
+    attachments?: NoticeAttachment[];
+}
+
+export interface SavedAttachments {
+    zipPath: string | null;
+    files: string[];
+    missing: string[];
+    unexpected: string[];
+}
+
+export type WatchedItemType =
+    | 'notice'
+    | 'dynamicPurchasingSystem'
+    | 'supplierRegister';
+
+export interface WatchedEntry {
+    id: number;
+    title: string;
+    isBeingCorrected: boolean;
+    deadline: string | null;
+    originalDeadline: string | null;
+}
+
+export interface CompanySnapshot {
+    notices: WatchedEntry[];
+    dynamicPurchasingSystems: WatchedEntry[];
+    supplierRegisters: WatchedEntry[];
+}
+
+export interface NoticeSnapshot {
+    updated: string;
+    companies: Record<string, CompanySnapshot>;
+}
+
+export interface SnapshotStore {
+    load(): Promise<NoticeSnapshot | undefined>;
+    save(snapshot: NoticeSnapshot): Promise<void>;
+}
+
+export interface NoticeWatcherOptions {
+    companyIds: number[];
+    session: Session;
+    interval?: number;
+    store?: SnapshotStore;
+    emitInitial?: boolean;
+    client?: TarjouspalveluClient;
+}
+
+export interface NoticeWatchEvent {
+    companyId: number;
+    type: WatchedItemType;
+    item: Notice | DynamicPurchasingSystem | SupplierRegister | WatchedEntry;
+    previous?: WatchedEntry;
+}
+
+export interface NoticeWatcherEvents {
+    added: (event: NoticeWatchEvent) => void;
+    removed: (event: NoticeWatchEvent) => void;
+    corrected: (event: NoticeWatchEvent) => void;
+    deadlineChanged: (event: NoticeWatchEvent) => void;
+    titleChanged: (event: NoticeWatchEvent) => void;
+    polled: (snapshot: NoticeSnapshot) => void;
+    failed: (error: Error, companyId?: number) => void;
+}
+
+export interface CrawlOptions {
+    companies?: Company[];
+    session?: Session;
+    concurrency?: number;
+    requestsPerSecond?: number;
+    onProgress?: (progress: CrawlProgress) => void;
+    client?: TarjouspalveluClient;
+}
+
+export interface CrawlProgress {
+    company: Company;
+    completed: number;
+    failed: number;
+    total: number;
+}
+
+export interface CrawlResult {
+    company: Company;
+    notices?: Notices;
+    error?: Error;
+}
+
+export interface ICalendarOptions {
+    companySlug?: string;
+    calendarName?: string;
+    client?: TarjouspalveluClient;
+}
+
+export interface CompanyRegistryOptions {
+    path?: string;
+    client?: TarjouspalveluClient;
+}
+
+export interface CompanyRegistrySnapshot {
+    updated: string | null;
+    companies: Company[];
+    learned: Company[];
+}
+
+export interface CompanyRename {
+    company: Company;
+    previous: Company;
+}
+
+export interface CompanyRegistryChanges {
+    added: Company[];
+    renamed: CompanyRename[];
+    removed: Company[];
+}
+
+export enum TenderStatus {
+    Draft = 'draft',
+    Submitted = 'submitted',
+}
+
+export interface Tender {
+    companyId: number;
+    noticeId: number;
+    tenderId: string;
+    status: TenderStatus;
+    modified: Date | null;
+    originalModified: string | null;
+}
+
+export interface CleanupDraftTendersOptions {
+    companies: number[];
+    noticeIds?: Record<number, number[]>;
+    olderThan?: number;
+}
+
+export interface FailedTenderRemoval {
+    tender: Tender;
+    error: Error;
+}
+
+export interface CleanupDraftTendersResult {
+    removed: Tender[];
+    failed: FailedTenderRemoval[];
+}
+
+export enum CleanupStatus {
+    Removed = 'removed',
+    NotFound = 'notFound',
+    Failed = 'failed',
+    Skipped = 'skipped',
+    Deferred = 'deferred',
+}
+
+export interface TenderCleanup {
+    status: CleanupStatus;
+    tenderId?: string;
+    error?: Error;
+}
+
+export interface BatchedTenderCleanup extends TenderCleanup {
+    companyId: number;
+    noticeId: number;
+}
+
+export interface NoticeQuery {
+    keyword?: string;
+    units?: string[];
+    flags?: NoticeFlag[];
+    types?: NoticeType[];
+    deadlineFrom?: string;
+    deadlineTo?: string;
+    isBeingCorrected?: boolean;
+    hasDeadline?: boolean;
+    sortByDeadline?: 'asc' | 'desc';
+}
+
+export interface CompanyNotices {
+    company: Company;
+    notices?: Notices;
+}
+
+export interface NoticeMatch {
+    notice: Notice;
+    company?: Company;
+}
+
+export interface ParsedDate {
+    date: Date;
+    hasTime: boolean;
+    utcOffset: number | null;
+}
@@ -0,0 +1,166 @@
+import { Language, NoticeFlag, NoticeType } from './interfaces';
+
+/**
+ * Human readable labels of the notice flags in every language
+ */
+export const noticeFlagLabels: Record<NoticeFlag, Record<Language, string>> = {
+    [NoticeFlag.EuThreshold]: {
+        [Language.Fi]: 'EU-kynnysarvon ylittävä',
+        [Language.Sv]: 'Över EU:s tröskelvärde',
+        [Language.En]: 'Above the EU threshold',
+        [Language.Da]: 'Over EU-tærskelværdien',
+    },
+    [NoticeFlag.National]: {
+        [Language.Fi]: 'Kansallinen',
+        [Language.Sv]: 'Nationell',
+        [Language.En]: 'National',
+        [Language.Da]: 'National',
+    },
+    [NoticeFlag.SmallProcurement]: {
+        [Language.Fi]: 'Pienhankinta',
+        [Language.Sv]: 'Lågvärdesupphandling',
+        [Language.En]: 'Small procurement',
+        [Language.Da]: 'Mindre indkøb',
+    },
+    [NoticeFlag.ElectronicTendering]: {
+        [Language.Fi]: 'Sähköinen tarjous',
+        [Language.Sv]: 'Elektroniskt anbud',
+        [Language.En]: 'Electronic tendering',
+        [Language.Da]: 'Elektronisk tilbud',
+    },
+    [NoticeFlag.Unknown]: {
+        [Language.Fi]: 'Tuntematon',
+        [Language.Sv]: 'Okänd',
+        [Language.En]: 'Unknown',
+        [Language.Da]: 'Ukendt',
+    },
+};
+
+/**
+ * Labels of the notice types in every language, as the site shows them
+ */
+export const noticeTypeLabels: Record<NoticeType, Record<Language, string>> = {
+    [NoticeType.Supplies]: {
+        [Language.Fi]: 'Tavarat',
+        [Language.Sv]: 'Varor',
+        [Language.En]: 'Supplies',
+        [Language.Da]: 'Varer',
+    },
+    [NoticeType.Services]: {
+        [Language.Fi]: 'Palvelut',
+        [Language.Sv]: 'Tjänster',
+        [Language.En]: 'Services',
+        [Language.Da]: 'Tjenesteydelser',
+    },
+    [NoticeType.Works]: {
+        [Language.Fi]: 'Rakennusurakat',
+        [Language.Sv]: 'Byggentreprenader',
+        [Language.En]: 'Works',
+        [Language.Da]: 'Bygge- og anlægsarbejder',
+    },
+    [NoticeType.ContractNotice]: {
+        [Language.Fi]: 'Hankintailmoitus',
+        [Language.Sv]: 'Upphandlingsannons',
+        [Language.En]: 'Contract notice',
+        [Language.Da]: 'Udbudsbekendtgørelse',
+    },
+    [NoticeType.ContractAwardNotice]: {
+        [Language.Fi]: 'Jälki-ilmoitus',
+        [Language.Sv]: 'Efterhandsannons',
+        [Language.En]: 'Contract award notice',
+        [Language.Da]: 'Bekendtgørelse om indgåede kontrakter',
+    },
+    [NoticeType.PriorInformationNotice]: {
+        [Language.Fi]: 'Ennakkoilmoitus',
+        [Language.Sv]: 'Förhandsannons',
+        [Language.En]: 'Prior information notice',
+        [Language.Da]: 'Forhåndsmeddelelse',
+    },
+    [NoticeType.Unknown]: {
+        [Language.Fi]: 'Tuntematon',
+        [Language.Sv]: 'Okänd',
+        [Language.En]: 'Unknown',
+        [Language.Da]: 'Ukendt',
+    },
+};
+
+// The flags of the icon names, which are the same in every language, in lower case and without other characters than letters
+const noticeFlagIcons: Readonly<Record<string, NoticeFlag>> = {
+    eu: NoticeFlag.EuThreshold, // images/ikoni_eu.gif
+    kansallinen: NoticeFlag.National, // images/ikoni_kansallinen.gif
+    pienhankinta: NoticeFlag.SmallProcurement, // images/pienhankinta_ikoni.png
+    sahkoinen: NoticeFlag.ElectronicTendering, // images/ikoni_sahkoinen.gif
+};
+
+const normalizeLabel = (label: string): string =>
+    label.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Get the flag name from the source of a flag icon, e.g. `ikoni_eu.gif` or `images/pienhankinta_ikoni.png`
+ *
+ * @param src - The source of the icon image
+ *
+ * @returns The flag name of the icon in lower case
+ */
+export const parseFlagIconName = (src: string): string => {
+    const match =
+        src.match(/ikoni_(.*?)\.gif/i) ??
+        src.match(/images\/(.*?)_ikoni/i) ?? // The pienhankinta icon is named the other way around
+        src.match(/([^/]*?)(\.[^./]*)?$/); // Icons named otherwise are kept as their filename
+
+    return (match?.[1] ?? src).toLowerCase();
+};
+
+/**
+ * Get the flag of a notice from the source of its icon. Both the notice list and the notice page use this, so the flags are the same on both.
+ *
+ * @param src - The source of the icon image
+ *
+ * @returns The flag, or `NoticeFlag.Unknown` for an icon that isn't known
+ */
+export const parseNoticeFlag = (src: string): NoticeFlag =>
+    noticeFlagIcons[parseFlagIconName(src).replace(/[^a-z]/g, '')] ??
+    NoticeFlag.Unknown;
+
+/**
+ * Get the type of a notice from its label, in any language
+ *
+ * @param label - The type label shown on the site
+ *
+ * @returns The type, or `NoticeType.Unknown` for a label that isn't known
+ */
+export const parseNoticeType = (label: string): NoticeType =>
+    (Object.keys(noticeTypeLabels) as NoticeType[]).find(
+        (type) =>
+            type !== NoticeType.Unknown &&
+            Object.values(noticeTypeLabels[type]).some(
+                (typeLabel) =>
+                    normalizeLabel(typeLabel) === normalizeLabel(label)
+            )
+    ) ?? NoticeType.Unknown;
+
+/**
+ * Get the human readable label of a notice flag
+ *
+ * @param flag     - The flag to get the label of
+ * @param language - The language of the label. Defaults to Finnish.
+ *
+ * @returns The label of the flag
+ */
+export const getNoticeFlagLabel = (
+    flag: NoticeFlag,
+    language: Language = Language.Fi
+): string => noticeFlagLabels[flag][language];
+
+/**
+ * Get the label of a notice type
+ *
+ * @param type     - The type to get the label of
+ * @param language - The language of the label. Defaults to Finnish.
+ *
+ * @returns The label of the type
+ */
+export const getNoticeTypeLabel = (
+    type: NoticeType,
+    language: Language = Language.Fi
+): string => noticeTypeLabels[type][language];
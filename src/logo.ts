@@ -0,0 +1,188 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { defaultClient, TarjouspalveluClient } from './client';
+import { NetworkError, TarjouspalveluError } from './errors';
+import {
+    Company,
+    CompanyLogo,
+    CompanyLogoOptions,
+    CompanyLogoResult,
+} from './interfaces';
+import { getHeader } from './utilities';
+
+// Cached logo file, with the image in Base64 so that it fits in JSON
+interface CachedLogo {
+    mimeType: string;
+    sourceUrl: string;
+    base64: string;
+}
+
+/**
+ * Get the MIME type of an image from its first bytes, for when the response doesn't have a usable Content-Type
+ *
+ * @param data - The image
+ *
+ * @returns The MIME type of the image
+ */
+const sniffMimeType = (data: Buffer): string => {
+    if (data.slice(0, 8).equals(Buffer.from('89504e470d0a1a0a', 'hex')))
+        return 'image/png';
+    if (data.slice(0, 3).equals(Buffer.from('ffd8ff', 'hex')))
+        return 'image/jpeg';
+    if (data.slice(0, 4).toString('ascii') === 'GIF8') return 'image/gif';
+    if (data.slice(0, 2).toString('ascii') === 'BM') return 'image/bmp';
+    if (/^\s*(<\?xml[^>]*>\s*)?<svg/i.test(data.slice(0, 256).toString('utf8')))
+        return 'image/svg+xml';
+
+    return 'application/octet-stream';
+};
+
+const toLogo = (
+    data: Buffer,
+    mimeType: string,
+    sourceUrl: string
+): CompanyLogo => ({
+    mimeType,
+    data,
+    base64: data.toString('base64'),
+    sourceUrl,
+});
+
+/**
+ * Read a logo from the cache directory, if it's there and not too old
+ *
+ * @param file   - Path of the cached logo
+ * @param maxAge - The maximum age of the cached logo in milliseconds
+ *
+ * @returns The cached logo, or undefined if it has to be fetched
+ */
+const readCachedLogo = async (
+    file: string,
+    maxAge: number
+): Promise<CompanyLogo | undefined> => {
+    try {
+        const stat = await fs.stat(file);
+        if (Date.now() - stat.mtimeMs > maxAge) return undefined;
+
+        const cached: CachedLogo = JSON.parse(await fs.readFile(file, 'utf8'));
+
+        return toLogo(
+            Buffer.from(cached.base64, 'base64'),
+            cached.mimeType,
+            cached.sourceUrl
+        );
+    } catch (error) {
+        // A missing or broken cache file is fetched again
+        return undefined;
+    }
+};
+
+/**
+ * Get the logo of a company
+ *
+ * @param company - The company from `getCompanies` to get the logo of. Companies that aren't listed on the index page don't have a logo.
+ * @param client  - The client to send the request with. Defaults to the default client.
+ *
+ * @returns The logo as raw bytes and in Base64, with its MIME type and URL
+ */
+export const getCompanyLogo = async (
+    company: Company,
+    client: TarjouspalveluClient = defaultClient
+): Promise<CompanyLogo> => {
+    if (!company.logoPath)
+        throw new TarjouspalveluError(
+            `Company ${company.slug} doesn't have a logo`
+        );
+
+    const sourceUrl = client.url(company.logoPath);
+    const response = await client.requestRaw({
+        operation: 'getCompanyLogo',
+        path: company.logoPath,
+    });
+
+    if (response.status !== 200)
+        throw new NetworkError(
+            'Failed to load company logo',
+            response.status,
+            sourceUrl
+        );
+
+    const contentType = getHeader(response.headers, 'content-type')
+        ?.split(';')[0]
+        .trim()
+        .toLowerCase();
+
+    return toLogo(
+        response.data,
+        contentType?.startsWith('image/')
+            ? contentType
+            : sniffMimeType(response.data),
+        sourceUrl
+    );
+};
+
+/**
+ * Get the logos of many companies, a few at a time. A failure on one logo doesn't stop the others, but is returned as the `error` of its result.
+ *
+ * @param companies - The companies from `getCompanies` to get the logos of
+ * @param options   - The number of logos to get at the same time (defaults to 4), a directory to cache the logos in,
+ * and the maximum age of the cached logos in milliseconds (defaults to 24 hours)
+ * @param client    - The client to send the requests with. Defaults to the default client.
+ *
+ * @returns The logos of the companies, in the same order as the companies
+ */
+export const getCompanyLogos = async (
+    companies: Company[],
+    options: CompanyLogoOptions = {},
+    client: TarjouspalveluClient = defaultClient
+): Promise<CompanyLogoResult[]> => {
+    const results: CompanyLogoResult[] = new Array(companies.length);
+    const maxAge = options.cacheMaxAge ?? 24 * 60 * 60 * 1000;
+
+    if (options.cacheDirectory)
+        await fs.mkdir(options.cacheDirectory, { recursive: true });
+
+    let next = 0;
+
+    const worker = async () => {
+        while (next < companies.length) {
+            const index = next++;
+            const company = companies[index];
+
+            const cacheFile = options.cacheDirectory
+                ? path.join(options.cacheDirectory, `${company.id}.json`)
+                : undefined;
+
+            try {
+                let logo = cacheFile
+                    ? await readCachedLogo(cacheFile, maxAge)
+                    : undefined;
+
+                if (!logo) {
+                    logo = await getCompanyLogo(company, client);
+
+                    if (cacheFile) {
+                        const cached: CachedLogo = {
+                            mimeType: logo.mimeType,
+                            sourceUrl: logo.sourceUrl,
+                            base64: logo.base64,
+                        };
+
+                        await fs.writeFile(cacheFile, JSON.stringify(cached));
+                    }
+                }
+
+                results[index] = { company, logo };
+            } catch (error) {
+                results[index] = { company, error };
+            }
+        }
+    };
+
+    await Promise.all(
+        Array.from({ length: Math.max(1, options.concurrency ?? 4) }, worker)
+    );
+
+    return results;
+};
@@ -1,170 +1,364 @@
-import axios from 'axios';
 import cheerio from 'cheerio';
 
-import { Notice, Session } from './interfaces';
-import { getTenderId, removeTender } from './tender';
-import { matchLocale, parseLocalizedDate } from './utilities';
+import { parseAttachmentLinks } from './attachment';
+import { defaultClient, TarjouspalveluClient } from './client';
+import { descriptionToMarkdown, descriptionToText } from './description';
+import { NetworkError, SessionExpiredError } from './errors';
+import {
+    ClientResponse,
+    Language,
+    MultilingualNotice,
+    NoticeDetails,
+    NoticeDetailsBase,
+    NoticeKind,
+    NoticeType,
+    Session,
+} from './interfaces';
+import { parseFlagIconName, parseNoticeFlag, parseNoticeType } from './labels';
+import { handleTenderCleanup, TenderCleanupBatch } from './tender';
+import {
+    boolFromYesOrNo,
+    getSessionLanguage,
+    matchLocale,
+    parseDate,
+    parseLocalizedDate,
+    setSessionLanguage,
+} from './utilities';
 
 /**
- * Get a single notice of a company.
+ * Parse a notice from the pages of the notice, without fetching anything
  *
- * @param companyId - ID of the company of the notice to get
- * @param noticeId  - ID of the notice to get
- * @param session   - The Session object to be used for getting the notice. **MUST be logged in.**
- * @param cleanup   - Whether to remove the automatically generated tender after getting the details from it. Defaults to true.
+ * @param noticeId        - ID of the notice
+ * @param noticeHtml      - HTML of the full notice page (tpKasittely.aspx), which has the flags and types of the notice
+ * @param detailsHtml     - HTML of the details page (tpReferal.aspx)
+ * @param attachmentsHtml - HTML of the attachments page (TarjousPyyntoLiitteet.aspx)
+ * @param url             - URL of the full notice page, used for detecting the language and in the errors
  *
- * @returns Notice object of the given notice
+ * @returns Notice object of the given notice, which is a contract notice, an award notice or a prior information notice depending on its type
  */
-export const getNotice = async (
-    companyId: number,
+export const parseNoticeDetails = (
     noticeId: number,
-    session: Session,
-    cleanup = true
-): Promise<Notice> => {
-    // Initialize the notice by going to the full notice page - this is required for the subpages to load because the notice ID is apparently stored in the session???
-    const noticePage = await axios
-        .get(
-            `https://tarjouspalvelu.fi/Tarjouspalvelu/tpKasittely.aspx?p=${companyId}&g=${session.uuid}&tpID=${noticeId}`,
-            {
-                headers: {
-                    Cookie: `ASP.NET_SessionId_TP=${session.id}; TarjPalv=${session.token};`,
-                },
-                maxRedirects: 0,
-            }
-        )
-        .catch((error) => {
-            if (error.response.status === 302)
-                throw new Error('Failed to load notice, bad session?');
-            else throw new Error('Failed to load notice');
-        });
+    noticeHtml: string,
+    detailsHtml: string,
+    attachmentsHtml: string,
+    url?: string
+): NoticeDetails => {
+    const locale = matchLocale(noticeHtml, url);
 
-    const locale = matchLocale(noticePage.data);
-
-    const [detailsResponse, attachmentsResponse] = await Promise.all([
-        // Details page
-        axios
-            .get(
-                `https://tarjouspalvelu.fi/Tarjouspalvelu/tpReferal.aspx?g=${session.uuid}&tpID=${noticeId}`,
-                {
-                    headers: {
-                        Cookie: `ASP.NET_SessionId_TP=${session.id}; TarjPalv=${session.token};`,
-                    },
-                    maxRedirects: 0,
-                }
-            )
-            .catch((error) => {
-                if (error.response.status === 302)
-                    throw new Error('Failed to load notice, bad session?');
-                else throw new Error('Failed to load notice');
-            }),
-
-        // Attachments page
-        axios
-            .get(
-                `https://tarjouspalvelu.fi/Tarjouspalvelu/TarjousPyyntoLiitteet.aspx?g=${session.uuid}&tpID=${noticeId}`,
-                {
-                    headers: {
-                        Cookie: `ASP.NET_SessionId_TP=${session.id}; TarjPalv=${session.token};`,
-                    },
-                    maxRedirects: 0,
-                }
-            )
-            .catch((error) => {
-                if (error.response.status === 302)
-                    throw new Error('Failed to load notice, bad session?');
-                else throw new Error('Failed to load notice');
-            }),
-    ]);
-
-    // Initialize cheerio with the fetched responses
-    const d = cheerio.load(detailsResponse.data);
-    const a = cheerio.load(attachmentsResponse.data);
-    const n = cheerio.load(noticePage.data);
-
-    const notice = {
+    // Initialize cheerio with the pages
+    const d = cheerio.load(detailsHtml);
+    const n = cheerio.load(noticeHtml);
+
+    // Get the boolean value of a yes/no field, or null if the field isn't shown on the page
+    const optionalBool = (selector: string): boolean | null =>
+        d(selector).length !== 0 && d(selector).text().trim().length !== 0
+            ? boolFromYesOrNo(d(selector).text().trim())
+            : null;
+
+    // Get the text of a field, or undefined if the field isn't shown on the page
+    const optionalText = (selector: string): string | undefined =>
+        d(selector).text().trim() || undefined;
+
+    const flagIcons: string[] = n('img[align="absmiddle"]')
+        .map((_i, el) => n(el).attr('src') ?? '')
+        .get();
+
+    const typeLabels: string[] = n('span[class*="harmaa"]')
+        .map((_i, el) => n(el).text().trim())
+        .get();
+
+    const description = d('#valKuvaus').html()?.toString() ?? null; // If there's no description return null
+
+    // The deadline element exists even if there's no deadline, and the deadline may end with its time zone
+    const originalDeadline = d('#valDueDate').text().trim();
+    const deadline =
+        originalDeadline.length !== 0
+            ? parseDate(originalDeadline, locale, url, '#valDueDate')
+            : null;
+
+    const base: NoticeDetailsBase = {
         id: noticeId,
 
         customId: d('#valHankTunniste').text(),
 
-        published: parseLocalizedDate(d('#valIlmPaiva').text(), locale),
+        published: parseLocalizedDate(
+            d('#valIlmPaiva').text(),
+            locale,
+            url,
+            '#valIlmPaiva'
+        ),
 
         originalPublished: d('#valIlmPaiva').text(),
 
-        deadline:
-            d('#valDueDate').text().length !== 0 // Check the length of the deadline, because even if there's no deadline the element still exists (but the others don't???)
-                ? parseLocalizedDate(
-                      d('#valDueDate').text().split('  (UTC')[0], // Remove the timezone indication before passing it on
-                      locale
-                  )
-                : null, // If there is no deadline, return undefined
+        deadline: deadline?.date ?? null,
+
+        deadlineHasTime: deadline?.hasTime ?? null,
 
         originalDeadline:
-            d('#valDueDate').text().length !== 0 // Check the length of the deadline, because even if there's no deadline the element still exists (but the others don't???)
-                ? d('#valDueDate').text().split('  (UTC')[0] // Remove the timezone indication before passing it on
-                : null, // If there is no deadline, return undefined
+            originalDeadline.length !== 0 ? originalDeadline : null,
 
         unit: d('#valHankYksMarkNimi').text(),
 
         title: d('#valHankNimi').text(),
 
-        flags: n('img[align="absmiddle"]')
-            .map((i, el) => {
-                const flag = n(el)
-                    .attr('src')
-                    ?.match(/ikoni_(.*?).gif/); // Remove the filename parts of the image source, leaving only the flag type part
+        flags: flagIcons.map(parseNoticeFlag),
 
-                if (!flag) throw new Error('Failed to parse flag image');
+        originalFlags: flagIcons.map(parseFlagIconName),
 
-                return flag[1];
-            })
-            .get(),
+        types: typeLabels.map(parseNoticeType),
 
-        types: n('span[class*="harmaa"]')
-            .map((_i, el) => n(el).text())
-            .get(),
+        originalTypes: typeLabels,
 
-        description: d('#valKuvaus').html()?.toString() ?? null, // If there's no description return null
+        description,
+
+        descriptionText:
+            description !== null ? descriptionToText(description) : null,
+
+        descriptionMarkdown:
+            description !== null ? descriptionToMarkdown(description) : null,
 
         authorityType: d('#valHankYksLuo').text(),
 
         category: d('#valHankLaj').text(),
 
-        /* procedure: d('#valHankMenet').text(), @TODO: do some logic that checks if it's a tender notice and then get these tender-specific fields
+        ...parseAttachmentLinks(attachmentsHtml),
+    };
+
+    let notice: NoticeDetails;
+
+    // The kinds are told apart by their type label
+    if (base.types.includes(NoticeType.ContractAwardNotice))
+        notice = {
+            ...base,
+            kind: NoticeKind.Award,
+            procedure: d('#valHankMenet').text(),
+            winner: optionalText('#valVoittaja'),
+            value: optionalText('#valHankArvo'),
+        };
+    else if (base.types.includes(NoticeType.PriorInformationNotice))
+        notice = {
+            ...base,
+            kind: NoticeKind.PriorInformation,
+        };
+    else
+        notice = {
+            ...base,
+            kind: NoticeKind.Contract,
+            procedure: d('#valHankMenet').text(),
+            partialTendersAccepted: optionalBool('#valPartAcc'),
+            alternativeTendersAccepted: optionalBool('#valAltAcc'),
+            reservedForWorkCenters: optionalBool('#valWorkCent'),
+            selectionCriteria: d('#valOfferSel').text(),
+        };
+
+    return notice;
+};
+
+/**
+ * Get a single notice of a company.
+ *
+ * @param companyId - ID of the company of the notice to get
+ * @param noticeId  - ID of the notice to get
+ * @param session   - The Session object to be used for getting the notice. **MUST be logged in.**
+ * @param cleanup   - Whether to remove the automatically generated tender after getting the details from it, or a `TenderCleanupBatch` to remove it later with. Defaults to true.
+ * The tender is removed even if getting the notice fails, and the `cleanup` of the result or of the thrown error tells what happened to it.
+ * @param client    - The client to send the requests with. Defaults to the default client.
+ *
+ * @returns Notice object of the given notice, which is a contract notice, an award notice or a prior information notice depending on its type
+ */
+export const getNotice = async (
+    companyId: number,
+    noticeId: number,
+    session: Session,
+    cleanup: boolean | TenderCleanupBatch = true,
+    client: TarjouspalveluClient = defaultClient
+): Promise<NoticeDetails> => {
+    // Load a notice page with the logged in session, checking that the session was accepted
+    const loadPage = async (
+        operation: string,
+        path: string
+    ): Promise<ClientResponse> => {
+        const response = await client.request({
+            operation,
+            path,
+            session,
+            headers: {
+                Cookie: `ASP.NET_SessionId_TP=${session.id}; TarjPalv=${session.token};`,
+            },
+        });
+
+        if (response.status === 302)
+            throw new SessionExpiredError(
+                'Failed to load notice, bad session?',
+                response.url
+            );
+        else if (response.status !== 200)
+            throw new NetworkError(
+                'Failed to load notice',
+                response.status,
+                response.url
+            );
 
-        partialTendersAccepted: boolFromYesOrNo(d('#valPartAcc').text()),
+        return response;
+    };
+
+    let notice: NoticeDetails;
+
+    try {
+        // Initialize the notice by going to the full notice page - this is required for the subpages to load because the notice ID is apparently stored in the session???
+        const noticePage = await loadPage(
+            'getNotice.notice',
+            `/Tarjouspalvelu/tpKasittely.aspx?p=${companyId}&g=${session.uuid}&tpID=${noticeId}`
+        );
 
-        alternativeTendersAccepted: boolFromYesOrNo(d('#valAltAcc').text()),
+        const [detailsResponse, attachmentsResponse] = await Promise.all([
+            // Details page
+            loadPage(
+                'getNotice.details',
+                `/Tarjouspalvelu/tpReferal.aspx?g=${session.uuid}&tpID=${noticeId}`
+            ),
 
-        reservedForWorkCenters: boolFromYesOrNo(d('#valWorkCent').text()),
+            // Attachments page
+            loadPage(
+                'getNotice.attachments',
+                `/Tarjouspalvelu/TarjousPyyntoLiitteet.aspx?g=${session.uuid}&tpID=${noticeId}`
+            ),
+        ]);
 
-        selectionCriteria: d('#valOfferSel').text(), */
+        notice = client.parse('getNotice', noticePage.url, () =>
+            parseNoticeDetails(
+                noticeId,
+                noticePage.data,
+                detailsResponse.data,
+                attachmentsResponse.data,
+                noticePage.url
+            )
+        );
+    } catch (error) {
+        // The tender may have been created even if getting the notice failed, so it's removed regardless, and the error tells what happened to it
+        if (error instanceof Error)
+            Object.assign(error, {
+                cleanup: await handleTenderCleanup(
+                    cleanup,
+                    companyId,
+                    noticeId,
+                    session,
+                    client
+                ),
+            });
 
-        attachments: a('a[id*="TiedostoLinkki"]') // Filter to get only the file links from the page - ESPD is not needed as it is not a file per se
-            .map((i, el) => {
-                return {
-                    fileName: a(el).text(),
-                    fileUuid: a(el).attr('href')?.replace(
-                        '../Document/Open/?fileType=TarjPyynTied&id=', // Replace the URL portion to get only the UUID
-                        ''
-                    ),
-                };
-            })
-            .get(),
+        throw error;
+    }
 
-        links: a('a[id*="HyperLink1"]') // Filter to get only the links from the page
-            .map((i, el) => {
-                return a(el).attr('href');
-            })
-            .get(),
+    // Remove the tender that got automatically created when getting the notice details, unless the cleanup parameter says otherwise
+    return {
+        ...notice,
+        cleanup: await handleTenderCleanup(
+            cleanup,
+            companyId,
+            noticeId,
+            session,
+            client
+        ),
     };
+};
+
+/**
+ * Get a single notice of a company in several languages, by switching the language of the session between them.
+ * The language of the session is restored afterwards.
+ *
+ * Notices that haven't been translated show the original text in every language, so only the languages in `distinctLanguages`
+ * have their own title, description or unit. The types are the labels of the site, so they're translated regardless.
+ *
+ * @param companyId - ID of the company of the notice to get
+ * @param noticeId  - ID of the notice to get
+ * @param session   - The Session object to be used for getting the notice. **MUST be logged in.**
+ * @param languages - The languages to get the notice in, in the order of preference. Defaults to all languages.
+ * @param cleanup   - Whether to remove the automatically generated tender after getting the details from it, or a `TenderCleanupBatch` to remove it later with. Defaults to true.
+ * @param client    - The client to send the requests with. Defaults to the default client.
+ *
+ * @returns The notice in each language, and its localized fields by language
+ */
+export const getNoticeMultilingual = async (
+    companyId: number,
+    noticeId: number,
+    session: Session,
+    languages: Language[] = Object.values(Language),
+    cleanup: boolean | TenderCleanupBatch = true,
+    client: TarjouspalveluClient = defaultClient
+): Promise<MultilingualNotice> => {
+    const result: MultilingualNotice = {
+        notices: {},
+        title: {},
+        description: {},
+        types: {},
+        unit: {},
+        distinctLanguages: [],
+    };
+
+    const original = await getSessionLanguage(companyId, session, client);
+
+    try {
+        for (const language of languages) {
+            await setSessionLanguage(companyId, language, session, client);
+
+            // The tender is the same for every language, so it's removed only once at the end
+            const notice = await getNotice(
+                companyId,
+                noticeId,
+                session,
+                false,
+                client
+            );
+
+            // A language has its own content if it differs from every language before it
+            const distinct = result.distinctLanguages.every(
+                (other) =>
+                    result.title[other] !== notice.title ||
+                    result.description[other] !== notice.description ||
+                    result.unit[other] !== notice.unit
+            );
+
+            if (distinct) result.distinctLanguages.push(language);
+
+            result.notices[language] = notice;
+            result.title[language] = notice.title;
+            result.description[language] = notice.description;
+            result.types[language] = notice.originalTypes;
+            result.unit[language] = notice.unit;
+        }
+    } catch (error) {
+        if (error instanceof Error && languages.length !== 0)
+            Object.assign(error, {
+                cleanup: await handleTenderCleanup(
+                    cleanup,
+                    companyId,
+                    noticeId,
+                    session,
+                    client
+                ),
+            });
+
+        // Restore the language before failing, without hiding the error behind a failure of that
+        try {
+            await setSessionLanguage(companyId, original, session, client);
+        } catch (restoreError) {
+            if (error instanceof Error) Object.assign(error, { restoreError });
+        }
+
+        throw error;
+    }
+
+    await setSessionLanguage(companyId, original, session, client);
 
-    // If cleanup paremeter is set, then remove the tender that got automatically created when getting the notice details
-    if (cleanup)
-        await removeTender(
+    if (languages.length !== 0)
+        result.cleanup = await handleTenderCleanup(
+            cleanup,
             companyId,
-            await getTenderId(companyId, noticeId, session),
-            session
+            noticeId,
+            session,
+            client
         );
 
-    return notice; // Return the filled notice object
+    return result;
 };
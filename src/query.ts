@@ -0,0 +1,334 @@
+import { InvalidQueryError } from './errors';
+import {
+    CompanyNotices,
+    Notice,
+    NoticeFlag,
+    NoticeMatch,
+    NoticeQuery,
+    Notices,
+    NoticeType,
+} from './interfaces';
+
+/**
+ * Normalize text for comparing, so that case and accents don't matter, e.g. "Hämeenlinna" matches "hameenlinna"
+ *
+ * @param text - The text to normalize
+ *
+ * @returns The text in lower case without accents
+ */
+const normalize = (text: string): string =>
+    text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .trim();
+
+const isValidDate = (date: Date | null | undefined): date is Date =>
+    date instanceof Date && !isNaN(date.getTime());
+
+/**
+ * Get a deadline bound of a query as a date
+ *
+ * @param query - The query to get the bound from
+ * @param field - The field of the bound
+ *
+ * @returns The date of the bound, or undefined if the query doesn't have it
+ *
+ * @throws InvalidQueryError if the bound isn't a date
+ */
+const deadlineBound = (
+    query: NoticeQuery,
+    field: 'deadlineFrom' | 'deadlineTo'
+): Date | undefined => {
+    const value = query[field];
+    // An empty bound is left out, like a missing one
+    if (value === undefined || value === null || value === '') return undefined;
+
+    const date = new Date(value);
+
+    // An invalid date compares false with every deadline, which would let every notice through
+    if (typeof value !== 'string' || !isValidDate(date))
+        throw new InvalidQueryError(field, value);
+
+    return date;
+};
+
+/**
+ * Check whether a notice matches a query. The sorting of the query doesn't affect matching.
+ *
+ * @param notice - The notice to check
+ * @param query  - The query to check the notice against
+ *
+ * @returns Whether the notice matches every condition of the query
+ *
+ * @throws InvalidQueryError if a deadline of the query isn't a date
+ */
+export const matchesNoticeQuery = (
+    notice: Notice,
+    query: NoticeQuery
+): boolean => {
+    const deadlineFrom = deadlineBound(query, 'deadlineFrom');
+    const deadlineTo = deadlineBound(query, 'deadlineTo');
+
+    if (query.keyword) {
+        const text = normalize(
+            `${notice.title} ${notice.shortDescription ?? ''}`
+        );
+
+        // Every word of the keyword has to be found, in any order
+        if (
+            !normalize(query.keyword)
+                .split(/\s+/)
+                .every((word) => text.includes(word))
+        )
+            return false;
+    }
+
+    if (
+        query.units &&
+        query.units.length !== 0 &&
+        !query.units.some((unit) =>
+            normalize(notice.unit).includes(normalize(unit))
+        )
+    )
+        return false;
+
+    if (
+        query.flags &&
+        query.flags.length !== 0 &&
+        !query.flags.some((flag) => notice.flags.includes(flag))
+    )
+        return false;
+
+    if (
+        query.types &&
+        query.types.length !== 0 &&
+        !query.types.some((type) => notice.types.includes(type))
+    )
+        return false;
+
+    if (
+        query.isBeingCorrected !== undefined &&
+        (notice.isBeingCorrected ?? false) !== query.isBeingCorrected
+    )
+        return false;
+
+    const hasDeadline = isValidDate(notice.deadline);
+
+    if (query.hasDeadline !== undefined && hasDeadline !== query.hasDeadline)
+        return false;
+
+    // Notices without a deadline can't be in a deadline range
+    if (
+        deadlineFrom &&
+        (!hasDeadline || (notice.deadline as Date) < deadlineFrom)
+    )
+        return false;
+
+    if (deadlineTo && (!hasDeadline || (notice.deadline as Date) > deadlineTo))
+        return false;
+
+    return true;
+};
+
+/**
+ * Find the notices matching a query from the notices of one or many companies
+ *
+ * @param input - The Notices object from `getNotices`, a list of notices, or the notices of many companies, e.g. the results of `crawlNotices`
+ * @param query - The query to match the notices against, e.g. one built with `NoticeQueryBuilder` or loaded from JSON
+ *
+ * @returns The matching notices, with their companies if the input had them, sorted by deadline if the query asks for it
+ *
+ * @throws InvalidQueryError if a deadline of the query isn't a date, even when there are no notices to match
+ */
+export const queryNotices = (
+    input: Notices | Notice[] | CompanyNotices[],
+    query: NoticeQuery
+): NoticeMatch[] => {
+    deadlineBound(query, 'deadlineFrom');
+    deadlineBound(query, 'deadlineTo');
+
+    let candidates: NoticeMatch[];
+
+    if (!Array.isArray(input))
+        candidates = input.notices.map((notice) => ({ notice }));
+    else
+        candidates = (input as (Notice | CompanyNotices)[]).reduce<
+            NoticeMatch[]
+        >(
+            (all, item) =>
+                'company' in item
+                    ? [
+                          ...all,
+                          ...(item.notices?.notices ?? []).map((notice) => ({
+                              notice,
+                              company: item.company,
+                          })),
+                      ]
+                    : [...all, { notice: item }],
+            []
+        );
+
+    const matches = candidates.filter(({ notice }) =>
+        matchesNoticeQuery(notice, query)
+    );
+
+    if (query.sortByDeadline) {
+        const direction = query.sortByDeadline === 'desc' ? -1 : 1;
+
+        // Notices without a deadline are always last
+        matches.sort((a, b) => {
+            const aHas = isValidDate(a.notice.deadline);
+            const bHas = isValidDate(b.notice.deadline);
+
+            if (!aHas || !bHas) return Number(bHas) - Number(aHas) || 0;
+
+            return (
+                direction *
+                ((a.notice.deadline as Date).getTime() -
+                    (b.notice.deadline as Date).getTime())
+            );
+        });
+    }
+
+    return matches;
+};
+
+/**
+ * Builds a notice query step by step. The built query is a plain object, so it can be stored as JSON and given back to `queryNotices` or `NoticeQueryBuilder.from` later.
+ */
+export class NoticeQueryBuilder {
+    private query: NoticeQuery;
+
+    /**
+     * @param query - A query to start from, e.g. one loaded from JSON
+     *
+     * @throws InvalidQueryError if a deadline of the query isn't a date
+     */
+    constructor(query: NoticeQuery = {}) {
+        deadlineBound(query, 'deadlineFrom');
+        deadlineBound(query, 'deadlineTo');
+
+        this.query = { ...query };
+    }
+
+    /**
+     * Start building from a query, e.g. one loaded from JSON
+     *
+     * @param query - The query to start from
+     *
+     * @returns The builder
+     *
+     * @throws InvalidQueryError if a deadline of the query isn't a date
+     */
+    static from(query: NoticeQuery): NoticeQueryBuilder {
+        return new NoticeQueryBuilder(query);
+    }
+
+    /**
+     * Match notices whose title or short description has every word of the keyword, regardless of case and accents
+     */
+    keyword(keyword: string): this {
+        this.query.keyword = keyword;
+        return this;
+    }
+
+    /**
+     * Match notices whose unit includes any of the given texts
+     */
+    units(...units: string[]): this {
+        this.query.units = units;
+        return this;
+    }
+
+    /**
+     * Match notices that have any of the given flags
+     */
+    flags(...flags: NoticeFlag[]): this {
+        this.query.flags = flags;
+        return this;
+    }
+
+    /**
+     * Match notices that have any of the given types
+     */
+    types(...types: NoticeType[]): this {
+        this.query.types = types;
+        return this;
+    }
+
+    /**
+     * Match notices whose deadline is in the given range. Either end can be left out.
+     *
+     * @throws InvalidQueryError if either end is an invalid Date
+     */
+    deadlineBetween(from?: Date, to?: Date): this {
+        if (from && !isValidDate(from))
+            throw new InvalidQueryError('deadlineFrom', from);
+        if (to && !isValidDate(to))
+            throw new InvalidQueryError('deadlineTo', to);
+
+        this.query.deadlineFrom = from?.toISOString();
+        this.query.deadlineTo = to?.toISOString();
+        return this;
+    }
+
+    /**
+     * Match notices that are, or aren't, being corrected
+     */
+    beingCorrected(isBeingCorrected = true): this {
+        this.query.isBeingCorrected = isBeingCorrected;
+        return this;
+    }
+
+    /**
+     * Match notices that have, or don't have, a deadline
+     */
+    hasDeadline(hasDeadline = true): this {
+        this.query.hasDeadline = hasDeadline;
+        return this;
+    }
+
+    /**
+     * Sort the matches by their deadline, with the notices without a deadline last
+     */
+    sortByDeadline(order: 'asc' | 'desc' = 'asc'): this {
+        this.query.sortByDeadline = order;
+        return this;
+    }
+
+    /**
+     * Get the built query, without the conditions that were left unset
+     *
+     * @returns The query as a plain object
+     */
+    build(): NoticeQuery {
+        return JSON.parse(JSON.stringify(this.query));
+    }
+
+    toJSON(): NoticeQuery {
+        return this.build();
+    }
+
+    /**
+     * Check whether a notice matches the built query
+     *
+     * @param notice - The notice to check
+     *
+     * @returns Whether the notice matches
+     */
+    matches(notice: Notice): boolean {
+        return matchesNoticeQuery(notice, this.query);
+    }
+
+    /**
+     * Find the notices matching the built query
+     *
+     * @param input - The Notices object from `getNotices`, a list of notices, or the notices of many companies, e.g. the results of `crawlNotices`
+     *
+     * @returns The matching notices, with their companies if the input had them
+     */
+    run(input: Notices | Notice[] | CompanyNotices[]): NoticeMatch[] {
+        return queryNotices(input, this.query);
+    }
+}
@@ -0,0 +1,115 @@
+import cheerio from 'cheerio';
+
+import { parseAttachmentLinks } from './attachment';
+import { defaultClient, TarjouspalveluClient } from './client';
+import { descriptionToMarkdown, descriptionToText } from './description';
+import { NetworkError, SessionExpiredError } from './errors';
+import { Session, SupplierRegisterDetails } from './interfaces';
+import { matchLocale, parseLocalizedDate } from './utilities';
+
+/**
+ * Parse a supplier register from its page, without fetching anything
+ *
+ * @param registerId - ID of the supplier register
+ * @param html       - HTML of the supplier register page
+ * @param url        - URL of the page, used for detecting the language
+ *
+ * @returns Details of the given supplier register
+ */
+export const parseSupplierRegisterDetails = (
+    registerId: number,
+    html: string,
+    url?: string
+): SupplierRegisterDetails => {
+    const locale = matchLocale(html, url);
+
+    // Initialize cheerio with the page
+    const d = cheerio.load(html);
+
+    const description = d('#valKuvaus').html()?.toString() ?? null; // If there's no description return null
+
+    const validUntil = d('#valDueDate').text().trim();
+
+    return {
+        id: registerId,
+
+        customId: d('#valHankTunniste').text(),
+
+        unit: d('#valHankYksMarkNimi').text(),
+
+        title: d('#valHankNimi').text(),
+
+        published: parseLocalizedDate(
+            d('#valIlmPaiva').text(),
+            locale,
+            url,
+            '#valIlmPaiva'
+        ),
+
+        originalPublished: d('#valIlmPaiva').text(),
+
+        validUntil:
+            validUntil.length !== 0
+                ? parseLocalizedDate(validUntil, locale, url, '#valDueDate')
+                : null, // Registers can be valid indefinitely
+
+        originalValidUntil: validUntil.length !== 0 ? validUntil : null,
+
+        description,
+
+        descriptionText:
+            description !== null ? descriptionToText(description) : null,
+
+        descriptionMarkdown:
+            description !== null ? descriptionToMarkdown(description) : null,
+
+        ...parseAttachmentLinks(html),
+    };
+};
+
+/**
+ * Get a single supplier register (kelpuuttamisjärjestelmä) of a company.
+ *
+ * @param companyId  - ID of the company of the supplier register to get
+ * @param registerId - ID of the supplier register to get
+ * @param session    - The Session object to be used for getting the supplier register. Does not have to be logged in.
+ * @param client     - The client to send the requests with. Defaults to the default client.
+ *
+ * @returns Details of the given supplier register
+ *
+ * @beta
+ */
+export const getSupplierRegister = async (
+    companyId: number,
+    registerId: number,
+    session: Session,
+    client: TarjouspalveluClient = defaultClient
+): Promise<SupplierRegisterDetails> => {
+    const response = await client.request({
+        operation: 'getSupplierRegister',
+        path: `/TarjousPyynto/KelpuuttamisJarjestelma?pid=${companyId}&id=${registerId}`,
+        session,
+        headers: {
+            Cookie: `ASP.NET_SessionId_TP=${session.id}; TarjPalv=${session.token};`,
+            Referer: client.url(
+                `/tarjouspyynnot.aspx?p=${companyId}&g=${session.uuid}`
+            ),
+        },
+    });
+
+    if (response.status === 302)
+        throw new SessionExpiredError(
+            'Failed to load supplier register, bad session?',
+            response.url
+        );
+    else if (response.status !== 200)
+        throw new NetworkError(
+            'Failed to load supplier register',
+            response.status,
+            response.url
+        );
+
+    return client.parse('getSupplierRegister', response.url, () =>
+        parseSupplierRegisterDetails(registerId, response.data, response.url)
+    );
+};
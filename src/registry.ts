@@ -0,0 +1,209 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { defaultClient, TarjouspalveluClient } from './client';
+import { missingCompanies } from './company';
+import {
+    Company,
+    CompanyRegistryChanges,
+    CompanyRegistryOptions,
+    CompanyRegistrySnapshot,
+    CompanyRename,
+} from './interfaces';
+
+const normalizeSlug = (slug: string): string => slug.trim().toLowerCase();
+
+/**
+ * Keeps the slugs and IDs of the companies, so that they can be resolved without sending requests.
+ *
+ * The registry is seeded from `getCompanies` and `missingCompanies` the first time it's used, and kept in a JSON file if a path is given.
+ * Slugs that aren't listed are resolved with `companySlugToId` and remembered.
+ */
+export class CompanyRegistry {
+    readonly path: string | undefined;
+    readonly client: TarjouspalveluClient;
+
+    private snapshot: CompanyRegistrySnapshot = {
+        updated: null,
+        companies: [],
+        learned: [],
+    };
+    private loading: Promise<void> | undefined;
+    private seeding: Promise<CompanyRegistryChanges> | undefined;
+
+    /**
+     * @param options - Path of the JSON file to keep the registry in (kept in memory only if not given), and the client to use
+     */
+    constructor(options: CompanyRegistryOptions = {}) {
+        this.path = options.path;
+        this.client = options.client ?? defaultClient;
+    }
+
+    /**
+     * When the companies were last refreshed from the site, or null if they never have been
+     */
+    get updated(): Date | null {
+        return this.snapshot.updated ? new Date(this.snapshot.updated) : null;
+    }
+
+    /**
+     * Get all known companies, including the ones resolved with `companySlugToId`
+     *
+     * @returns The companies
+     */
+    async getCompanies(): Promise<Company[]> {
+        await this.load();
+
+        // Seed the registry from the site if nothing has been saved yet
+        if (!this.snapshot.updated) {
+            if (!this.seeding)
+                this.seeding = this.update().finally(() => {
+                    this.seeding = undefined;
+                });
+
+            await this.seeding;
+        }
+
+        return [...this.snapshot.companies, ...this.snapshot.learned];
+    }
+
+    /**
+     * Find a known company by its slug or ID, without sending any requests other than seeding the registry
+     *
+     * @param slugOrId - The slug or ID of the company
+     *
+     * @returns The company, or undefined if it isn't known
+     */
+    async find(slugOrId: string | number): Promise<Company | undefined> {
+        const companies = await this.getCompanies();
+
+        return typeof slugOrId === 'number'
+            ? companies.find((company) => company.id === slugOrId)
+            : companies.find(
+                  (company) =>
+                      normalizeSlug(company.slug) === normalizeSlug(slugOrId)
+              );
+    }
+
+    /**
+     * Get the ID of a company by its slug. Unknown slugs are resolved with `companySlugToId`, and the result is remembered.
+     *
+     * @param slug - The slug of the company
+     *
+     * @returns The ID of the company
+     */
+    async slugToId(slug: string): Promise<number> {
+        const known = await this.find(slug);
+        if (known) return known.id;
+
+        const id = await this.client.companySlugToId(slug);
+
+        this.snapshot.learned.push({
+            id,
+            slug: normalizeSlug(slug),
+            name: slug,
+            logo: undefined,
+        });
+        await this.save();
+
+        return id;
+    }
+
+    /**
+     * Get the slug of a company by its ID
+     *
+     * @param id - The ID of the company
+     *
+     * @returns The slug of the company, or undefined if it isn't known
+     */
+    async idToSlug(id: number): Promise<string | undefined> {
+        return (await this.find(id))?.slug;
+    }
+
+    /**
+     * Get the companies from the site again and save them
+     *
+     * @returns The companies that were added, renamed (the slug or name changed) or removed since the previous refresh
+     */
+    async refresh(): Promise<CompanyRegistryChanges> {
+        await this.load();
+
+        return this.update();
+    }
+
+    // Load the registry from the file, if there is one
+    private load(): Promise<void> {
+        if (!this.loading)
+            this.loading = (async () => {
+                if (!this.path) return;
+
+                try {
+                    this.snapshot = JSON.parse(
+                        await fs.readFile(this.path, 'utf8')
+                    );
+                } catch (error) {
+                    // Nothing has been saved yet
+                    if (error.code === 'ENOENT') return;
+
+                    // Let the next call try again
+                    this.loading = undefined;
+                    throw error;
+                }
+            })();
+
+        return this.loading;
+    }
+
+    private async update(): Promise<CompanyRegistryChanges> {
+        const listed = await this.client.getCompanies();
+
+        const companies = [
+            ...listed.map((company) => ({ ...company, logo: undefined })), // The logos are large and change often, so they're not kept
+            ...missingCompanies.filter(
+                (missing) =>
+                    !listed.some((company) => company.id === missing.id)
+            ),
+        ];
+
+        const previous = this.snapshot.companies;
+        const previousById = new Map(
+            previous.map((company) => [company.id, company])
+        );
+        const currentIds = new Set(companies.map((company) => company.id));
+
+        const changes: CompanyRegistryChanges = {
+            added: companies.filter((company) => !previousById.has(company.id)),
+            renamed: companies
+                .map((company) => ({
+                    company,
+                    previous: previousById.get(company.id),
+                }))
+                .filter(
+                    (rename): rename is CompanyRename =>
+                        rename.previous !== undefined &&
+                        (rename.previous.slug !== rename.company.slug ||
+                            rename.previous.name !== rename.company.name)
+                ),
+            removed: previous.filter((company) => !currentIds.has(company.id)),
+        };
+
+        this.snapshot = {
+            updated: new Date().toISOString(),
+            companies,
+            // Learned companies that are now listed don't need to be kept separately
+            learned: this.snapshot.learned.filter(
+                (company) => !currentIds.has(company.id)
+            ),
+        };
+        await this.save();
+
+        return changes;
+    }
+
+    private async save(): Promise<void> {
+        if (!this.path) return;
+
+        await fs.mkdir(path.dirname(this.path), { recursive: true });
+        await fs.writeFile(this.path, JSON.stringify(this.snapshot, null, 4));
+    }
+}
@@ -0,0 +1,83 @@
+import { ClientRequest, RetryPolicy, TransportResponse } from './interfaces';
+import { getHeader } from './utilities';
+
+/**
+ * The retry policy of the clients that aren't given one: GET and HEAD requests are retried twice after a network error,
+ * a timeout, too many requests or a server error, waiting about 0.5 and 1 seconds in between
+ */
+export const defaultRetryPolicy: Required<RetryPolicy> = {
+    retries: 2,
+    minDelay: 500,
+    maxDelay: 30 * 1000,
+    factor: 2,
+    jitter: true,
+    statuses: [408, 429, 500, 502, 503, 504],
+    methods: ['GET', 'HEAD'],
+    respectRetryAfter: true,
+};
+
+/**
+ * Combine the retry policy of a client with the one of a request
+ *
+ * @param clientPolicy - The policy of the client, or false if the client doesn't retry
+ * @param request      - The request, which may override the policy or disable retrying
+ *
+ * @returns The policy for the request, or undefined if it isn't retried
+ */
+export const resolveRetryPolicy = (
+    clientPolicy: RetryPolicy | false,
+    request: ClientRequest
+): Required<RetryPolicy> | undefined => {
+    if (request.retry === false) return undefined;
+
+    // A request with its own policy is retried even if the client doesn't retry by default
+    if (clientPolicy === false && !request.retry) return undefined;
+
+    const policy: Required<RetryPolicy> = {
+        ...defaultRetryPolicy,
+        ...(clientPolicy || {}),
+        ...request.retry,
+    };
+
+    // Only requests that can be safely sent twice are retried, unless the policy allows the method explicitly
+    const method = request.method ?? 'GET';
+
+    if (!request.idempotent && !policy.methods.includes(method))
+        return undefined;
+
+    return policy.retries > 0 ? policy : undefined;
+};
+
+/**
+ * Get how long to wait before retrying a request
+ *
+ * @param policy   - The retry policy of the request
+ * @param attempt  - The number of the retry, starting from 0
+ * @param response - The response that is retried, if there was one
+ *
+ * @returns The time to wait in milliseconds
+ */
+export const retryDelay = (
+    policy: Required<RetryPolicy>,
+    attempt: number,
+    response?: TransportResponse
+): number => {
+    const retryAfter = response && getHeader(response.headers, 'retry-after');
+
+    if (policy.respectRetryAfter && retryAfter) {
+        // Retry-After is either a number of seconds or an HTTP date
+        const delay = /^\d+$/.test(retryAfter.trim())
+            ? parseInt(retryAfter) * 1000
+            : Date.parse(retryAfter) - Date.now();
+
+        if (!isNaN(delay)) return Math.min(Math.max(delay, 0), policy.maxDelay);
+    }
+
+    const delay = Math.min(
+        policy.minDelay * Math.pow(policy.factor, attempt),
+        policy.maxDelay
+    );
+
+    // Spread the retries between half and the full delay, so that parallel requests don't retry all at once
+    return policy.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+};
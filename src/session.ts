@@ -0,0 +1,113 @@
+import { defaultClient, TarjouspalveluClient } from './client';
+import { NetworkError, ParseError } from './errors';
+import { Language, Session } from './interfaces';
+
+// Any company works for checking a session, because sessions aren't restricted to a company
+const fallbackCompanyId = 279;
+
+/**
+ * Serialize a session to a JSON string, for example to share it between processes or store it between runs.
+ * **The string includes the session token, so store it as securely as a password.**
+ *
+ * @param session - The session to serialize
+ *
+ * @returns The session as a JSON string
+ */
+export const serializeSession = (session: Session): string =>
+    JSON.stringify({
+        uuid: session.uuid,
+        id: session.id,
+        token: session.token,
+        companyId: session.companyId,
+        language: session.language,
+        username: session.username,
+        createdAt: session.createdAt?.toISOString(),
+        lastUsed: session.lastUsed?.toISOString(),
+    });
+
+/**
+ * Deserialize a session serialized with `serializeSession`
+ *
+ * @param serialized - The JSON string of the session
+ *
+ * @returns The session
+ *
+ * @throws ParseError if the string isn't a serialized session
+ */
+export const deserializeSession = (serialized: string): Session => {
+    let parsed;
+
+    try {
+        parsed = JSON.parse(serialized);
+    } catch (error) {
+        throw new ParseError('Serialized session is not valid JSON');
+    }
+
+    if (
+        typeof parsed?.uuid !== 'string' ||
+        typeof parsed?.id !== 'string' ||
+        (parsed.token !== undefined && typeof parsed.token !== 'string')
+    )
+        throw new ParseError('Serialized session is missing the UUID or ID');
+
+    const date = (value: unknown) =>
+        typeof value === 'string' && !isNaN(Date.parse(value))
+            ? new Date(value)
+            : undefined;
+
+    return {
+        uuid: parsed.uuid,
+        id: parsed.id,
+        token: parsed.token,
+        companyId:
+            typeof parsed.companyId === 'number' ? parsed.companyId : undefined,
+        language: Object.values(Language).includes(parsed.language)
+            ? parsed.language
+            : undefined,
+        username:
+            typeof parsed.username === 'string' ? parsed.username : undefined,
+        createdAt: date(parsed.createdAt),
+        lastUsed: date(parsed.lastUsed),
+    };
+};
+
+/**
+ * Check whether a session still works, with a single request. A logged in session is only valid if it's still logged in.
+ *
+ * @param session - The session to check
+ * @param client  - The client to send the request with. Defaults to the default client.
+ *
+ * @returns Whether the session can still be used
+ *
+ * @throws NetworkError if the site responds with something else than the page or a redirect, so the validity can't be told
+ */
+export const isSessionValid = async (
+    session: Session,
+    client: TarjouspalveluClient = defaultClient
+): Promise<boolean> => {
+    const response = await client.request({
+        operation: 'isSessionValid',
+        path: `/tarjouspyynnot.aspx?p=${
+            session.companyId ?? fallbackCompanyId
+        }&g=${session.uuid}`,
+        session,
+        headers: {
+            Cookie: `ASP.NET_SessionId_TP=${session.id}; TarjPalv=${session.token};`,
+        },
+    });
+
+    // An expired session is redirected away from the page
+    if (response.status === 302) return false;
+    else if (response.status !== 200)
+        throw new NetworkError(
+            'Failed to check session',
+            response.status,
+            response.url
+        );
+
+    // The login form is only shown when the session isn't logged in
+    return (
+        !session.token ||
+        !response.data.includes('ctl00$header$LoginView1$LoginCtrl$UserName')
+    );
+};
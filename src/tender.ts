@@ -1,8 +1,157 @@
-import axios from 'axios';
 import querystring from 'querystring';
 import cheerio from 'cheerio';
 
-import { Session } from './interfaces';
+import { defaultClient, TarjouspalveluClient } from './client';
+import {
+    NetworkError,
+    SessionExpiredError,
+    TenderNotFoundError,
+    TenderRemovalError,
+} from './errors';
+import { getNotices } from './company';
+import {
+    BatchedTenderCleanup,
+    CleanupDraftTendersOptions,
+    CleanupDraftTendersResult,
+    CleanupStatus,
+    ClientResponse,
+    Session,
+    Tender,
+    TenderCleanup,
+    TenderStatus,
+} from './interfaces';
+import { matchLocale, parseLocalizedDate } from './utilities';
+
+/**
+ * Load the tenders page of a notice, which lists the tenders the account has made to the notice
+ *
+ * @param operation - Name of the operation the page is loaded for, given to the hooks of the client
+ * @param companyId - The company ID of the notice
+ * @param noticeId  - The ID of the notice
+ * @param session   - The session to use
+ * @param client    - The client to send the request with
+ *
+ * @returns The tenders page
+ */
+const loadTendersPage = async (
+    operation: string,
+    companyId: number,
+    noticeId: number,
+    session: Session,
+    client: TarjouspalveluClient
+): Promise<ClientResponse> => {
+    const page = await client.request({
+        operation,
+        path: `/Tarjouspalvelu/TarjouspyynnonTarjoukset.aspx?p=${companyId}&g=${session.uuid}&tpID=${noticeId}`,
+        session,
+        headers: {
+            Cookie: `ASP.NET_SessionId_TP=${session.id}; TarjPalv=${session.token};`,
+        },
+    });
+
+    if (page.status === 302)
+        throw new SessionExpiredError(
+            'Failed to load the tenders, bad session?',
+            page.url
+        );
+    else if (page.status !== 200)
+        throw new NetworkError('Failed to load tender', page.status, page.url);
+
+    return page;
+};
+
+/**
+ * Parse the IDs of the tenders in progress from the tenders page of a notice, without fetching anything
+ *
+ * @param html - HTML of the tenders page of the notice (TarjouspyynnonTarjoukset.aspx)
+ *
+ * @returns The IDs of the tenders in progress, in the order they're listed on the page
+ */
+export const parseTenderList = (html: string): string[] => {
+    const $ = cheerio.load(html);
+
+    return $('a[id$="_hlModify"]')
+        .map((_i, el) => $(el).attr('href') ?? '')
+        .get()
+        .map(
+            (link: string) =>
+                querystring.parse(link.split('?')[1] ?? link).tarjID
+        )
+        .filter((tenderId): tenderId is string | string[] => !!tenderId)
+        .map((tenderId) => tenderId.toString());
+};
+
+/**
+ * Parse all tenders from the tenders page of a notice, without fetching anything
+ *
+ * @param html      - HTML of the tenders page of the notice (TarjouspyynnonTarjoukset.aspx)
+ * @param companyId - The company ID of the notice
+ * @param noticeId  - The ID of the notice
+ * @param url       - URL of the page, used for detecting the language
+ *
+ * @returns The tenders in progress and the submitted tenders, in the order they're listed on the page. The tenders in progress are the ones with a modify link, which `getTenderId` uses too.
+ */
+export const parseTenders = (
+    html: string,
+    companyId: number,
+    noticeId: number,
+    url?: string
+): Tender[] => {
+    const locale = matchLocale(html, url);
+
+    // Initialize cheerio with the page
+    const $ = cheerio.load(html);
+
+    const tenders: Tender[] = [];
+
+    for (const row of $('[id$="_GridView1"] tr').get()) {
+        // Every row of a tender links to it with its ID, which the header row doesn't
+        const link = $(row).find('a[href*="tarjID="]').first().attr('href');
+
+        const tenderId = link
+            ? querystring.parse(link.split('?')[1] ?? link).tarjID?.toString()
+            : undefined;
+
+        if (!tenderId) continue;
+
+        const cells = $(row)
+            .children('td')
+            .map((_i, el) => $(el).text().trim())
+            .get() as string[];
+
+        const originalModified =
+            cells
+                .map(
+                    (cell) =>
+                        cell.match(
+                            /\d{1,4}[./-]\d{1,2}[./-]\d{1,4} \d{1,2}:\d{2}(:\d{2})?/
+                        )?.[0]
+                )
+                .find((match) => match) ?? null;
+
+        tenders.push({
+            companyId,
+            noticeId,
+            tenderId,
+            // The status label differs between the languages, but only the tenders in progress can be modified
+            status:
+                $(row).find('a[id$="_hlModify"]').length !== 0
+                    ? TenderStatus.Draft
+                    : TenderStatus.Submitted,
+            modified: originalModified
+                ? parseLocalizedDate(
+                      originalModified,
+                      locale,
+                      url,
+                      '[id$="_GridView1"] tr > td'
+                  )
+                : null,
+            originalModified,
+        });
+    }
+
+    return tenders;
+};
 
 /**
  * Get the ID of a tender in progress by its notice number
@@ -10,39 +159,31 @@ import { Session } from './interfaces';
  * @param companyId - The company ID to remove the open tender from
  * @param noticeId  - The ID of the notice to get the tender ID
  * @param session   - The session to use
+ * @param client    - The client to send the requests with. Defaults to the default client.
  *
  * @returns The ID of the tender in progress
  */
 export const getTenderId = async (
     companyId: number,
     noticeId: number,
-    session: Session
+    session: Session,
+    client: TarjouspalveluClient = defaultClient
 ): Promise<string> => {
-    const page = await axios
-        .get(
-            `https://tarjouspalvelu.fi/Tarjouspalvelu/TarjouspyynnonTarjoukset.aspx?p=${companyId}&g=${session.uuid}&tpID=${noticeId}`,
-            {
-                headers: {
-                    Cookie: `ASP.NET_SessionId_TP=${session.id}; TarjPalv=${session.token};`,
-                },
-                maxRedirects: 0,
-            }
-        )
-        .catch((error) => {
-            if (error.response.status === 302)
-                throw new Error(
-                    'Failed to get the ID of the tender, bad session?'
-                );
-            else throw new Error('Failed to load tender');
-        });
-
-    const $ = cheerio.load(page.data);
+    const page = await loadTendersPage(
+        'getTenderId',
+        companyId,
+        noticeId,
+        session,
+        client
+    );
 
-    const link = $('#ctl00_PageContent_GridView1_ctl02_hlModify').attr('href');
+    const [tenderId] = client.parse('getTenderId', page.url, () =>
+        parseTenderList(page.data)
+    );
 
-    if (!link) throw new Error('No tenders in progress found');
+    if (!tenderId) throw new TenderNotFoundError(noticeId);
 
-    return querystring.parse(link).tarjID.toString();
+    return tenderId;
 };
 
 /**
@@ -51,32 +192,273 @@ export const getTenderId = async (
  * @param companyId - The company ID to remove the open tender from
  * @param tenderId  - The ID of the tender to remove
  * @param session   - The session to use
+ * @param client    - The client to send the requests with. Defaults to the default client.
  */
 export const removeTender = async (
     companyId: number,
     tenderId: string,
-    session: Session
+    session: Session,
+    client: TarjouspalveluClient = defaultClient
 ): Promise<void> => {
-    const response = await axios
-        .post(
-            `https://tarjouspalvelu.fi/TarjousListaukset/PoistaKeskenerainenTarjous`,
-            querystring.stringify({
-                tarjousid: tenderId,
-                palvelu: companyId,
-            }),
-            {
-                headers: {
-                    Cookie: `ASP.NET_SessionId_TP=${session.id}; TarjPalv=${session.token};`,
-                    'Content-Type': 'application/x-www-form-urlencoded',
-                },
-            }
-        )
-        .catch(() => {
-            throw new Error('Error removing tender');
-        });
+    const response = await client.request({
+        operation: 'removeTender',
+        method: 'POST',
+        path: '/TarjousListaukset/PoistaKeskenerainenTarjous',
+        data: querystring.stringify({
+            tarjousid: tenderId,
+            palvelu: companyId,
+        }),
+        session,
+        headers: {
+            Cookie: `ASP.NET_SessionId_TP=${session.id}; TarjPalv=${session.token};`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+        },
+    });
+
+    if (response.status !== 200)
+        throw new NetworkError(
+            'Error removing tender',
+            response.status,
+            response.url
+        );
 
     if (response.data.includes('{"error":true}'))
-        throw new Error('Error removing tender');
+        throw new TenderRemovalError(tenderId);
 
     return;
 };
+
+/**
+ * Remove the tender that was automatically created when getting the details of a notice or dynamic purchasing system. Never throws, but reports what happened instead.
+ *
+ * @param companyId - The company ID of the notice
+ * @param noticeId  - The ID of the notice
+ * @param session   - The session the details were fetched with
+ * @param client    - The client to send the requests with. Defaults to the default client.
+ *
+ * @returns Whether the tender was removed, not found, or failed to be removed and why
+ */
+export const cleanupTender = async (
+    companyId: number,
+    noticeId: number,
+    session: Session,
+    client: TarjouspalveluClient = defaultClient
+): Promise<TenderCleanup> => {
+    let tenderId: string | undefined;
+
+    try {
+        tenderId = await getTenderId(companyId, noticeId, session, client);
+        await removeTender(companyId, tenderId, session, client);
+
+        return { status: CleanupStatus.Removed, tenderId };
+    } catch (error) {
+        if (error instanceof TenderNotFoundError)
+            return { status: CleanupStatus.NotFound };
+
+        return { status: CleanupStatus.Failed, tenderId, error };
+    }
+};
+
+/**
+ * Collects the tenders to remove after getting the details of many notices, so that they can be removed together at the end.
+ * Give it as the `cleanup` parameter of `getNotice` or `getDynamicPurchasingSystem`, and call `flush` when done.
+ */
+export class TenderCleanupBatch {
+    private pending: {
+        companyId: number;
+        noticeId: number;
+        session: Session;
+        client: TarjouspalveluClient;
+    }[] = [];
+
+    /**
+     * The number of notices whose tenders are waiting to be removed
+     */
+    get size(): number {
+        return this.pending.length;
+    }
+
+    /**
+     * Add the tender of a notice to be removed later
+     *
+     * @param companyId - The company ID of the notice
+     * @param noticeId  - The ID of the notice
+     * @param session   - The session the details were fetched with
+     * @param client    - The client to send the requests with. Defaults to the default client.
+     *
+     * @returns The deferred cleanup status
+     */
+    add(
+        companyId: number,
+        noticeId: number,
+        session: Session,
+        client: TarjouspalveluClient = defaultClient
+    ): TenderCleanup {
+        // The same notice only has one tender, even if its details were fetched several times
+        if (
+            !this.pending.some(
+                (entry) =>
+                    entry.companyId === companyId &&
+                    entry.noticeId === noticeId &&
+                    entry.session === session
+            )
+        )
+            this.pending.push({ companyId, noticeId, session, client });
+
+        return { status: CleanupStatus.Deferred };
+    }
+
+    /**
+     * Remove the tenders of all added notices, one at a time
+     *
+     * @returns What happened to the tender of each notice
+     */
+    async flush(): Promise<BatchedTenderCleanup[]> {
+        const pending = this.pending;
+        this.pending = [];
+
+        const results: BatchedTenderCleanup[] = [];
+
+        for (const { companyId, noticeId, session, client } of pending)
+            results.push({
+                companyId,
+                noticeId,
+                ...(await cleanupTender(companyId, noticeId, session, client)),
+            });
+
+        return results;
+    }
+}
+
+/**
+ * Handle the tender created by getting the details of a notice, as asked by the `cleanup` parameter of the function getting them
+ *
+ * @param cleanup   - Whether to remove the tender now, or the batch to remove it later with
+ * @param companyId - The company ID of the notice
+ * @param noticeId  - The ID of the notice
+ * @param session   - The session the details were fetched with
+ * @param client    - The client to send the requests with. Defaults to the default client.
+ *
+ * @returns What happened to the tender
+ */
+export const handleTenderCleanup = async (
+    cleanup: boolean | TenderCleanupBatch,
+    companyId: number,
+    noticeId: number,
+    session: Session,
+    client: TarjouspalveluClient = defaultClient
+): Promise<TenderCleanup> => {
+    if (cleanup instanceof TenderCleanupBatch)
+        return cleanup.add(companyId, noticeId, session, client);
+
+    if (cleanup) return cleanupTender(companyId, noticeId, session, client);
+
+    return { status: CleanupStatus.Skipped };
+};
+
+/**
+ * Get the tenders of the account to the notices and dynamic purchasing systems of a company, both the ones in progress and the submitted ones.
+ * Getting a notice with `getNotice` creates a tender in progress, so this also finds the ones that were left behind.
+ *
+ * **The site has no list of all the tenders of an account, so the notices are checked one request each.** The notices that `getNotices` still lists are always checked,
+ * but the tenders of closed notices are only found if their IDs are given.
+ *
+ * @param companyId - The ID of the company to get the tenders of
+ * @param session   - The session to use. **MUST be logged in.**
+ * @param noticeIds - IDs of notices to check in addition to the listed ones, for example the ones whose details were fetched earlier
+ * @param client    - The client to send the requests with. Defaults to the default client.
+ *
+ * @returns The tenders of the account
+ */
+export const getTenders = async (
+    companyId: number,
+    session: Session,
+    noticeIds: number[] = [],
+    client: TarjouspalveluClient = defaultClient
+): Promise<Tender[]> => {
+    const notices = await getNotices(companyId, session, client);
+
+    const ids = [...notices.notices, ...notices.dynamicPurchasingSystems].map(
+        ({ id }) => id
+    );
+
+    for (const id of noticeIds) if (!ids.includes(id)) ids.push(id);
+
+    const tenders: Tender[] = [];
+
+    for (const id of ids) {
+        const page = await loadTendersPage(
+            'getTenders',
+            companyId,
+            id,
+            session,
+            client
+        );
+
+        tenders.push(
+            ...client.parse('getTenders', page.url, () =>
+                parseTenders(page.data, companyId, id, page.url)
+            )
+        );
+    }
+
+    return tenders;
+};
+
+/**
+ * Remove the tenders in progress that were left behind on the account, for example by `getNotice` calls whose cleanup failed.
+ * A failure to remove one tender doesn't stop the others, but is returned in the result.
+ *
+ * @param session - The session to use. **MUST be logged in.**
+ * @param options - The IDs of the companies to clean up, the IDs of the notices to check in addition to the listed ones by company ID (see `getTenders`),
+ * and the minimum age of the tenders to remove in milliseconds. Without an age, all tenders in progress are removed; with one, tenders without a modification time are kept.
+ * @param client  - The client to send the requests with. Defaults to the default client.
+ *
+ * @returns The removed tenders, and the ones that failed to be removed
+ */
+export const cleanupDraftTenders = async (
+    session: Session,
+    options: CleanupDraftTendersOptions,
+    client: TarjouspalveluClient = defaultClient
+): Promise<CleanupDraftTendersResult> => {
+    const result: CleanupDraftTendersResult = { removed: [], failed: [] };
+
+    const noticeIds = options.noticeIds ?? {};
+
+    // The companies with notice IDs are cleaned up even if they aren't listed in the companies
+    const companies = [
+        ...options.companies,
+        ...Object.keys(noticeIds)
+            .map((companyId) => parseInt(companyId))
+            .filter((companyId) => !options.companies.includes(companyId)),
+    ];
+
+    for (const companyId of companies) {
+        const drafts = (
+            await getTenders(
+                companyId,
+                session,
+                noticeIds[companyId] ?? [],
+                client
+            )
+        ).filter(
+            (tender) =>
+                tender.status === TenderStatus.Draft &&
+                (options.olderThan === undefined ||
+                    (tender.modified !== null &&
+                        Date.now() - tender.modified.getTime() >=
+                            options.olderThan))
+        );
+
+        for (const tender of drafts) {
+            try {
+                await removeTender(companyId, tender.tenderId, session, client);
+                result.removed.push(tender);
+            } catch (error) {
+                result.failed.push({ tender, error });
+            }
+        }
+    }
+
+    return result;
+};
@@ -1,40 +1,63 @@
-import axios from 'axios';
 import querystring from 'querystring';
 import cheerio from 'cheerio';
 import parse from 'date-fns/parse';
 import { zonedTimeToUtc } from 'date-fns-tz';
 
-import { Language, Session } from './interfaces';
+import { defaultClient, TarjouspalveluClient } from './client';
+import {
+    InvalidCompanySlugError,
+    LoginFailedError,
+    NetworkError,
+    ParseError,
+    SessionExpiredError,
+    TarjouspalveluError,
+} from './errors';
+import {
+    CacheEndpoint,
+    Language,
+    ParsedDate,
+    ResponseHeaders,
+    Session,
+} from './interfaces';
 
 /**
  * Convert a Tarjouspalvelu company slug to it's numeric ID number
  *
- * @param slug - The slug of the company to convert
+ * @param slug   - The slug of the company to convert
+ * @param client - The client to send the requests with. Defaults to the default client.
  *
  * @returns Numeric company ID of the provided slug
  */
-export const companySlugToId = async (slug: string): Promise<number> => {
+export const companySlugToId = async (
+    slug: string,
+    client: TarjouspalveluClient = defaultClient
+): Promise<number> => {
     let id;
 
-    await axios
-        .head(`https://tarjouspalvelu.fi/${slug}`, {
-            maxRedirects: 0,
-        })
-        .catch((error) => {
-            if (
-                error.response.headers.location ===
-                'https://tarjouspalvelu.fi/Default/Index'
-            )
-                throw new Error('Invalid company slug');
-
-            id = parseInt(
-                querystring
-                    .parse(error.response.headers.location.substr(14))
-                    .p.toString()
-            );
-        });
+    const response = await client.request({
+        operation: 'companySlugToId',
+        method: 'HEAD',
+        path: `/${slug}`,
+        cache: CacheEndpoint.CompanySlug,
+    });
+
+    const location = getHeader(response.headers, 'location');
+
+    if (location) {
+        if (location.endsWith('/Default/Index'))
+            throw new InvalidCompanySlugError(slug);
+
+        const query = querystring.parse(location.split('?')[1] ?? location);
 
-    if (!id) throw new Error('Failed getting company ID');
+        id = parseInt(query.p?.toString() ?? '');
+    }
+
+    if (!id)
+        throw new ParseError(
+            'Failed getting company ID',
+            'Location',
+            response.url
+        );
 
     return id;
 };
@@ -42,37 +65,51 @@ export const companySlugToId = async (slug: string): Promise<number> => {
 /**
  * Get a Tarjouspalvelu session
  *
- * @param slug - The slug of the company to get the session UUID with
+ * @param slug   - The slug of the company to get the session UUID with
+ * @param client - The client to send the requests with. Defaults to the default client.
  *
- * @returns Session object including the session UUID and ID
+ * @returns Session object including the session UUID and ID, and the time it was created
  */
-export const getSession = async (slug: string): Promise<Session> => {
-    let uuid, id;
-
-    await axios
-        .head(`https://tarjouspalvelu.fi/${slug}`, {
-            maxRedirects: 0,
-        })
-        .catch((error) => {
-            if (
-                error.response.headers.location ===
-                'https://tarjouspalvelu.fi/Default/Index'
-            )
-                throw new Error('Invalid company slug');
-
-            uuid = querystring
-                .parse(error.response.headers.location)
-                .g.toString();
-            id = error.response.headers['set-cookie']
-                .join('')
-                .match(/TP=(.*?);/)[1];
-        });
-
-    if (!uuid || !id) throw new Error('Failed getting session');
+export const getSession = async (
+    slug: string,
+    client: TarjouspalveluClient = defaultClient
+): Promise<Session> => {
+    let uuid, id, companyId;
+
+    const response = await client.request({
+        operation: 'getSession',
+        method: 'HEAD',
+        path: `/${slug}`,
+    });
+
+    const location = getHeader(response.headers, 'location');
+
+    if (location) {
+        if (location.endsWith('/Default/Index'))
+            throw new InvalidCompanySlugError(slug);
+
+        const query = querystring.parse(location.split('?')[1] ?? location);
+
+        uuid = query.g?.toString();
+        companyId = parseInt(query.p?.toString() ?? '') || undefined;
+        id = getCookies(response.headers).match(/TP=(.*?);/)?.[1];
+    }
+
+    if (!uuid || !id)
+        throw new ParseError(
+            'Failed getting session',
+            'Location, Set-Cookie',
+            response.url
+        );
+
+    const now = new Date();
 
     return {
         uuid,
         id,
+        companyId,
+        createdAt: now,
+        lastUsed: now,
     };
 };
 
@@ -83,76 +120,86 @@ export const getSession = async (slug: string): Promise<Session> => {
  * @param username - The user name used for logging in
  * @param password - The password used for logging in
  * @param session  - Session object to be filled with the token
+ * @param client   - The client to send the requests with. Defaults to the default client.
  *
- * @returns The given session object filled with the session token
+ * @returns The given session object filled with the session token and the user name
  */
 export const loginToSession = async (
     slug: string,
     username: string,
     password: string,
-    session?: Session
+    session?: Session,
+    client: TarjouspalveluClient = defaultClient
 ): Promise<Session> => {
-    // If no session is provided to login with, create a new session with the provided slug
-    if (!session) session = await getSession(slug);
+    let companyId: number | undefined;
+
+    // If no session is provided to login with, create a new session with the provided slug, which resolves the slug as well
+    if (!session) {
+        session = await getSession(slug, client);
+        companyId = session.companyId;
+    }
 
     // Get company id from the provided slug
-    const companyId = await companySlugToId(slug);
+    if (companyId === undefined)
+        companyId = await companySlugToId(slug, client);
 
     // Get WebForms inputs for the actual login request
-    const response = await axios
-        .get(
-            `https://tarjouspalvelu.fi/tarjouspyynnot.aspx?p=${companyId}&g=${session.uuid}`,
-            {
-                headers: { Cookie: `ASP.NET_SessionId_TP=${session.id};` },
-                maxRedirects: 0,
-            }
-        )
-        .catch((error) => {
-            if (error.response.status === 302)
-                throw new Error('Failed to load page, bad session?');
-            else throw new Error('Failed to load page');
-        });
+    const response = await client.request({
+        operation: 'loginToSession.page',
+        path: `/tarjouspyynnot.aspx?p=${companyId}&g=${session.uuid}`,
+        session,
+        headers: { Cookie: `ASP.NET_SessionId_TP=${session.id};` },
+    });
+
+    if (response.status === 302)
+        throw new SessionExpiredError(
+            'Failed to load page, bad session?',
+            response.url
+        );
+    else if (response.status !== 200)
+        throw new NetworkError(
+            'Failed to load page',
+            response.status,
+            response.url
+        );
 
     const $ = cheerio.load(response.data);
 
     // Get the TarjPalv session token with the fetched WebForms inputs
-    await axios
-        .post(
-            `https://tarjouspalvelu.fi/tarjouspyynnot.aspx?p=${companyId}&g=${session.uuid}`,
-            querystring.stringify({
-                __EVENTVALIDATION: $('[name=__EVENTVALIDATION]').attr('value'),
-                __VIEWSTATE: $('[name=__VIEWSTATE]').attr('value'),
-                ctl00$header$LoginView1$LoginCtrl$UserName: username,
-                ctl00$header$LoginView1$LoginCtrl$Password: password,
-                ctl00$header$LoginView1$LoginCtrl$btnLogin: 'Sisään', // This is required for some reason???
-            }),
-            {
-                headers: {
-                    Cookie: `ASP.NET_SessionId_TP=${session.id};`,
-                    'Content-Type': 'application/x-www-form-urlencoded',
-                },
-                maxRedirects: 0,
-            }
-        )
-        .catch((error) => {
-            // TarjPalv cookie is only returned when status is 302
-            if (error.response.status === 302) {
-                // If for some reason the session is missing, throw an error
-                if (!session)
-                    throw new Error('Error in mutating session object');
-
-                // Fill the provided session object with the token
-                session.token = error.response.headers['set-cookie']
-                    .join('')
-                    .match(/TarjPalv=(.*?);/)[1];
-            }
-            // If there's no status 302 then the username/password is wrong or we ended up to some very dark place
-            else throw new Error('Failed to log in, bad username/password?');
-        });
+    const loginResponse = await client.request({
+        operation: 'loginToSession.login',
+        method: 'POST',
+        path: `/tarjouspyynnot.aspx?p=${companyId}&g=${session.uuid}`,
+        data: querystring.stringify({
+            __EVENTVALIDATION: $('[name=__EVENTVALIDATION]').attr('value'),
+            __VIEWSTATE: $('[name=__VIEWSTATE]').attr('value'),
+            ctl00$header$LoginView1$LoginCtrl$UserName: username,
+            ctl00$header$LoginView1$LoginCtrl$Password: password,
+            ctl00$header$LoginView1$LoginCtrl$btnLogin: 'Sisään', // This is required for some reason???
+        }),
+        session,
+        headers: {
+            Cookie: `ASP.NET_SessionId_TP=${session.id};`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+        },
+    });
+
+    // TarjPalv cookie is only returned when status is 302
+    if (loginResponse.status === 302) {
+        // Fill the provided session object with the token
+        session.token = getCookies(loginResponse.headers).match(
+            /TarjPalv=(.*?);/
+        )?.[1];
+    }
+    // If there's no status 302 then the username/password is wrong or we ended up to some very dark place
+    else throw new LoginFailedError('Failed to log in, bad username/password?');
 
     // If no token is present, then something went wrong
     if (!session.token)
-        throw new Error('Failed to log in, bad username/password?');
+        throw new LoginFailedError('Failed to log in, bad username/password?');
+
+    session.username = username;
+    session.companyId = companyId;
 
     return session;
 };
@@ -163,28 +210,35 @@ export const loginToSession = async (
  * @param companyId - The ID of the company to set the language with (can be anyone, session is not restricted to it in any way)
  * @param language  - The language to set. Must be either "fi-FI", "sv-SE", "en-GB" or "da-DK".
  * @param session   - Session object to set the language for
+ * @param client    - The client to send the requests with. Defaults to the default client.
  *
  * @returns The given session object that has the language set
  */
 export const setSessionLanguage = async (
     companyId: number,
     language: Language,
-    session: Session
+    session: Session,
+    client: TarjouspalveluClient = defaultClient
 ): Promise<Session> => {
     // Get WebForms inputs for the actual login request
-    const response = await axios
-        .get(
-            `https://tarjouspalvelu.fi/tarjouspyynnot.aspx?p=${companyId}&g=${session.uuid}`,
-            {
-                headers: { Cookie: `ASP.NET_SessionId_TP=${session.id};` },
-                maxRedirects: 0,
-            }
-        )
-        .catch((error) => {
-            if (error.response.status === 302)
-                throw new Error('Failed to load page, invalid session?');
-            else throw new Error('Failed to load page');
-        });
+    const response = await client.request({
+        operation: 'setSessionLanguage.page',
+        path: `/tarjouspyynnot.aspx?p=${companyId}&g=${session.uuid}`,
+        session,
+        headers: { Cookie: `ASP.NET_SessionId_TP=${session.id};` },
+    });
+
+    if (response.status === 302)
+        throw new SessionExpiredError(
+            'Failed to load page, invalid session?',
+            response.url
+        );
+    else if (response.status !== 200)
+        throw new NetworkError(
+            'Failed to load page',
+            response.status,
+            response.url
+        );
 
     const $ = cheerio.load(response.data);
 
@@ -197,37 +251,39 @@ export const setSessionLanguage = async (
     };
 
     // Set the language with the fetched WebForms inputs
-    await axios
-        .post(
-            `https://tarjouspalvelu.fi/tarjouspyynnot.aspx?p=${companyId}&g=${session.uuid}`,
-            querystring.stringify({
-                __EVENTVALIDATION: $('[name=__EVENTVALIDATION]').attr('value'),
-                __VIEWSTATE: $('[name=__VIEWSTATE]').attr('value'),
-                __EVENTTARGET: languageTable[language],
-            }),
-            {
-                headers: {
-                    Cookie: `ASP.NET_SessionId_TP=${session.id}; tarjouspalvelu.fi=;`,
-                    'Content-Type': 'application/x-www-form-urlencoded',
-                },
-                maxRedirects: 0,
-            }
-        )
-        .catch((error) => {
-            // Language is set only when the status is 302
-            if (error.response.status === 302) {
-                // Get the language set from the tarjouspalvelu.fi cookie's culture param
-                const setLanguage = error.response.headers['set-cookie']
-                    .join('')
-                    .match(/culture=(.*?)&Expires/)[1];
-
-                if (language === setLanguage) return session;
-                else throw new Error('Response has an unexpected language');
-            }
-            // If there's no status 302 then the username/password is wrong or we ended up to some very dark place
-            else
-                throw new Error('Error setting the language, invalid session?');
-        });
+    const languageResponse = await client.request({
+        operation: 'setSessionLanguage.language',
+        method: 'POST',
+        path: `/tarjouspyynnot.aspx?p=${companyId}&g=${session.uuid}`,
+        data: querystring.stringify({
+            __EVENTVALIDATION: $('[name=__EVENTVALIDATION]').attr('value'),
+            __VIEWSTATE: $('[name=__VIEWSTATE]').attr('value'),
+            __EVENTTARGET: languageTable[language],
+        }),
+        session,
+        headers: {
+            Cookie: `ASP.NET_SessionId_TP=${session.id}; tarjouspalvelu.fi=;`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+        },
+    });
+
+    // Language is set only when the status is 302
+    if (languageResponse.status !== 302)
+        // If there's no status 302 then the username/password is wrong or we ended up to some very dark place
+        throw new SessionExpiredError(
+            'Error setting the language, invalid session?',
+            languageResponse.url
+        );
+
+    // Get the language set from the tarjouspalvelu.fi cookie's culture param
+    const setLanguage = getCookies(languageResponse.headers).match(
+        /culture=(.*?)&Expires/
+    )?.[1];
+
+    if (language !== setLanguage)
+        throw new TarjouspalveluError('Response has an unexpected language');
+
+    session.language = language;
 
     return session;
 };
@@ -237,46 +293,58 @@ export const setSessionLanguage = async (
  *
  * @param companyId - The ID of the company to get the locale with (can be anyone, session is not restricted to it in any way)
  * @param session   - Session object to get the locale from
+ * @param client    - The client to send the requests with. Defaults to the default client.
  *
  * @returns The current locale of the session
  */
 export const getSessionLanguage = async (
     companyId: number,
-    session: Session
+    session: Session,
+    client: TarjouspalveluClient = defaultClient
 ): Promise<Language> => {
     // Get the notices page of a company, where the locale is shown
-    const page = await axios
-        .get(
-            `https://tarjouspalvelu.fi/tarjouspyynnot.aspx?p=${companyId}&g=${session.uuid}`,
-            {
-                headers: {
-                    Cookie: `ASP.NET_SessionId_TP=${session.id}; TarjPalv=${session.token};`,
-                },
-                maxRedirects: 0,
-            }
-        )
-        .catch((error) => {
-            if (error.response.status === 302)
-                throw new Error('Failed to load page, bad session?');
-            else throw new Error('Failed to load page');
-        });
-
-    return matchLocale(page.data);
+    const page = await client.request({
+        operation: 'getSessionLanguage',
+        path: `/tarjouspyynnot.aspx?p=${companyId}&g=${session.uuid}`,
+        session,
+        headers: {
+            Cookie: `ASP.NET_SessionId_TP=${session.id}; TarjPalv=${session.token};`,
+        },
+    });
+
+    if (page.status === 302)
+        throw new SessionExpiredError(
+            'Failed to load page, bad session?',
+            page.url
+        );
+    else if (page.status !== 200)
+        throw new NetworkError('Failed to load page', page.status, page.url);
+
+    session.language = matchLocale(page.data, page.url);
+
+    return session.language;
 };
 
 /**
  * Match the current locale from page HTML content
  *
  * @param html - The HTML source of the page to get the locale from
+ * @param url  - URL of the page, included in the error if matching fails
  *
  * @returns The current locale
  */
 export const matchLocale = (
-    html: string
+    html: string,
+    url?: string
 ): Language => {
     const locale = html.match(/__cultureInfo = {"name":"(.*?)","/);
 
-    if (locale === null) throw new Error('Failed to match the locale');
+    if (locale === null)
+        throw new ParseError(
+            'Failed to match the locale',
+            '__cultureInfo',
+            url
+        );
 
     switch (locale[1]) {
         case 'fi-FI':
@@ -289,7 +357,7 @@ export const matchLocale = (
             return Language.Da
     }
 
-    throw new Error('Failed to match the locale');
+    throw new ParseError('Failed to match the locale', '__cultureInfo', url);
 };
 
 /**
@@ -311,54 +379,202 @@ export const boolFromYesOrNo = (text: string): boolean => {
             return false;
     }
 
-    throw new Error('Failed to form a boolean from the given text');
+    throw new ParseError('Failed to form a boolean from the given text');
 };
 
+// Date formats of each language, and the time formats that may follow them
+const dateFormats: Record<Language, string> = {
+    [Language.Fi]: 'd.M.yyyy',
+    [Language.Sv]: 'yyyy-MM-dd',
+    [Language.En]: 'dd/MM/yyyy',
+    [Language.Da]: 'dd-MM-yyyy',
+};
+const timeFormats = ['HH:mm:ss', 'HH:mm'];
+
 /**
- * Get the Date object of a given localized string representation of date by the locale given, and convert it to UTC from Europe/Helsinki time
+ * Format a UTC offset in minutes as a time zone for date-fns-tz, e.g. `+02:00`
  *
- * @param date   - The localized string to be converted
- * @param locale - The locale to convert the string from
+ * @param offset - The offset from UTC in minutes
  *
- * @returns Date object of the given localized date in UTC
+ * @returns The offset as a time zone
  */
-export const parseLocalizedDate = (
-    date: string,
-    locale: Language
-): Date => {
-    // Table for selecting the correct date format to use
-    const languageTable = {
-        'fi-FI': 'd.M.yyyy HH:mm:ss',
-        'sv-SE': 'yyyy-MM-dd HH:mm:ss',
-        'en-GB': 'dd/MM/yyyy HH:mm:ss',
-        'da-DK': 'dd-MM-yyyy HH:mm:ss',
-    };
+const formatUtcOffset = (offset: number): string => {
+    const pad = (value: number) => `0${value}`.slice(-2);
 
-    // Return the date with date-fns
-    return zonedTimeToUtc(
-        parse(date, languageTable[locale], new Date()),
-        'Europe/Helsinki' // Tarjouspalvelu.fi always returns times in Helsinki time
+    const hours = pad(Math.floor(Math.abs(offset) / 60));
+    const minutes = pad(Math.abs(offset) % 60);
+
+    return `${offset < 0 ? '-' : '+'}${hours}:${minutes}`;
+};
+
+/**
+ * Parse a localized date from the site, with or without the seconds or the time, and with or without the UTC offset suffix, e.g. `1.2.2021 12:00 (UTC+02:00)`.
+ * The date is converted to UTC from the offset if the text has only the offset, and from Europe/Helsinki time otherwise. An offset followed by the name of the zone,
+ * e.g. `(UTC+02:00) Helsinki, Kyiv`, is only the standard offset of the zone, so those dates are converted from Europe/Helsinki time to get the daylight saving time right.
+ *
+ * @param text     - The localized date to parse
+ * @param locale   - The locale of the page the date is from. The formats of the other locales are tried too, as they can't be mistaken for each other.
+ * @param url      - URL of the page the date is from, used in the errors
+ * @param selector - Selector of the element the date is from, used in the errors
+ *
+ * @returns The date in UTC, whether the text had a time or only a day, and the UTC offset of the text in minutes, or null if it didn't have one
+ *
+ * @throws ParseError if the text isn't a date in any of the known formats, or its year doesn't have four digits
+ */
+export const parseDate = (
+    text: string,
+    locale: Language,
+    url?: string,
+    selector?: string
+): ParsedDate => {
+    // Some dates end with the time zone, e.g. "(UTC+02:00)" or "(UTC+02:00) Helsinki, Kyiv, Riga"
+    const zone = text.match(
+        /\(\s*UTC\s*(?:([+-])\s*(\d{1,2})(?::?(\d{2}))?)?\s*\)([\s\S]*)$/i
     );
+
+    const value = (zone ? text.slice(0, zone.index) : text)
+        .trim()
+        .replace(/\s+/g, ' ');
+
+    const utcOffset = zone
+        ? (zone[1] === '-' ? -1 : 1) *
+          (parseInt(zone[2] ?? '0') * 60 + parseInt(zone[3] ?? '0'))
+        : null;
+
+    // Tarjouspalvelu.fi returns times in Helsinki time unless told otherwise
+    const timeZone =
+        utcOffset !== null && !zone?.[4].trim()
+            ? formatUtcOffset(utcOffset)
+            : 'Europe/Helsinki';
+
+    const formats = [
+        dateFormats[locale],
+        ...Object.values(dateFormats).filter(
+            (format) => format !== dateFormats[locale]
+        ),
+    ];
+
+    for (const dateFormat of formats)
+        for (const timeFormat of [...timeFormats, null]) {
+            const parsed = parse(
+                value,
+                timeFormat ? `${dateFormat} ${timeFormat}` : dateFormat,
+                new Date()
+            );
+
+            // Two-digit years, e.g. 1.2.21, would be parsed as the year 21
+            if (isNaN(parsed.getTime()) || parsed.getFullYear() < 1000)
+                continue;
+
+            return {
+                date: zonedTimeToUtc(parsed, timeZone),
+                hasTime: timeFormat !== null,
+                utcOffset,
+            };
+        }
+
+    throw new ParseError(`Failed to parse the date "${text}"`, selector, url);
 };
 
+/**
+ * Get the Date object of a given localized string representation of date by the locale given, and convert it to UTC. See `parseDate` for the accepted formats.
+ *
+ * @param date     - The localized string to be converted
+ * @param locale   - The locale to convert the string from
+ * @param url      - URL of the page the date is from, used in the errors
+ * @param selector - Selector of the element the date is from, used in the errors
+ *
+ * @returns Date object of the given localized date in UTC
+ *
+ * @throws ParseError if the string isn't a date in any of the known formats
+ */
+export const parseLocalizedDate = (
+    date: string,
+    locale: Language,
+    url?: string,
+    selector?: string
+): Date => parseDate(date, locale, url, selector).date;
+
 /**
  * Build a link for a single file attachment in a notice by its UUID. *Note: Tarjouspalvelu links are download-only by default.*
  * 
- * @param uuid - The UUID of the file to build the link from
+ * @param uuid   - The UUID of the file to build the link from
+ * @param client - The client to build the link for. Defaults to the default client.
  * 
  * @returns The link to the file
  */
-export const buildAttachmentLink = (fileUuid: string): string => {
-    return `https://tarjouspalvelu.fi/Document/Open/?fileType=TarjPyynTied&id=${fileUuid}`;
+export const buildAttachmentLink = (
+    fileUuid: string,
+    client: TarjouspalveluClient = defaultClient
+): string => {
+    return client.url(`/Document/Open/?fileType=TarjPyynTied&id=${fileUuid}`);
+};
+
+/**
+ * Build a link to a notice for people who aren't logged in. The notice pages need a session of the site,
+ * so the link goes through the public page of the company, which creates a session for the visitor, with the ID of the notice.
+ *
+ * @param slug     - The slug of the company of the notice
+ * @param noticeId - The ID of the notice
+ * @param client   - The client to build the link for. Defaults to the default client.
+ *
+ * @returns The link to the notice
+ */
+export const buildNoticeLink = (
+    slug: string,
+    noticeId: number,
+    client: TarjouspalveluClient = defaultClient
+): string => {
+    return client.url(`/${slug}?id=${noticeId}`);
 };
 
 /**
  * Build a link for a all file attachments in a single notice, in a ZIP file. *Note: Tarjouspalvelu links are download-only by default.*
  * 
  * @param noticeId - The ID of the notice containing the file attachments
+ * @param client   - The client to build the link for. Defaults to the default client.
  * 
  * @returns The link to the ZIP file
  */
-export const buildAllAttachmentsLink = (noticeId: number): string => {
-    return `https://tarjouspalvelu.fi/Zip/TarjousPyynnonLiitteet/${noticeId.toString()}`;
+export const buildAllAttachmentsLink = (
+    noticeId: number,
+    client: TarjouspalveluClient = defaultClient
+): string => {
+    return client.url(`/Zip/TarjousPyynnonLiitteet/${noticeId.toString()}`);
+};
+
+/**
+ * Get a single header value of a response, independent of the header name case
+ *
+ * @param headers - The headers of the response
+ * @param name    - The name of the header to get
+ *
+ * @returns The value of the header, or undefined if it's missing
+ */
+export const getHeader = (
+    headers: ResponseHeaders,
+    name: string
+): string | undefined => {
+    const key = Object.keys(headers).find(
+        (header) => header.toLowerCase() === name.toLowerCase()
+    );
+    const value = key ? headers[key] : undefined;
+
+    return Array.isArray(value) ? value.join(', ') : value;
+};
+
+/**
+ * Get all the cookies set by a response joined to a single string, for matching the values from
+ *
+ * @param headers - The headers of the response
+ *
+ * @returns The joined Set-Cookie headers, or an empty string if there are none
+ */
+export const getCookies = (headers: ResponseHeaders): string => {
+    const key = Object.keys(headers).find(
+        (header) => header.toLowerCase() === 'set-cookie'
+    );
+    const value = key ? headers[key] : undefined;
+
+    return Array.isArray(value) ? value.join('') : value ?? '';
 };
\ No newline at end of file
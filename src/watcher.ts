@@ -0,0 +1,279 @@
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+
+import { defaultClient, TarjouspalveluClient } from './client';
+import {
+    CompanySnapshot,
+    DynamicPurchasingSystem,
+    Notice,
+    NoticeSnapshot,
+    NoticeWatcherEvents,
+    NoticeWatcherOptions,
+    Session,
+    SnapshotStore,
+    SupplierRegister,
+    WatchedEntry,
+    WatchedItemType,
+} from './interfaces';
+
+type WatchedItem = Notice | DynamicPurchasingSystem | SupplierRegister;
+
+/**
+ * Snapshot store that keeps the snapshot in memory, so it's lost when the process exits
+ */
+export class MemorySnapshotStore implements SnapshotStore {
+    private snapshot: NoticeSnapshot | undefined;
+
+    async load(): Promise<NoticeSnapshot | undefined> {
+        return this.snapshot;
+    }
+
+    async save(snapshot: NoticeSnapshot): Promise<void> {
+        this.snapshot = snapshot;
+    }
+}
+
+/**
+ * Snapshot store that keeps the snapshot in a JSON file, so it survives restarts
+ */
+export class FileSnapshotStore implements SnapshotStore {
+    /**
+     * @param path - Path of the JSON file to keep the snapshot in
+     */
+    constructor(readonly path: string) {}
+
+    async load(): Promise<NoticeSnapshot | undefined> {
+        try {
+            return JSON.parse(await fs.readFile(this.path, 'utf8'));
+        } catch (error) {
+            // No snapshot has been saved yet
+            if (error.code === 'ENOENT') return undefined;
+
+            throw error;
+        }
+    }
+
+    async save(snapshot: NoticeSnapshot): Promise<void> {
+        await fs.writeFile(this.path, JSON.stringify(snapshot, null, 4));
+    }
+}
+
+/**
+ * Get the fields of a listed notice that are compared between polls
+ *
+ * @param item - The notice, dynamic purchasing system or supplier register to get the entry of
+ *
+ * @returns The entry to store in the snapshot
+ */
+const toEntry = (item: WatchedItem): WatchedEntry => ({
+    id: item.id,
+    title: item.title,
+    isBeingCorrected: item.isBeingCorrected ?? false,
+    deadline:
+        item.deadline && !isNaN(item.deadline.getTime()) // An unparseable deadline can't be serialized, but its original text is still compared
+            ? item.deadline.toISOString()
+            : null,
+    originalDeadline: item.originalDeadline,
+});
+
+export declare interface NoticeWatcher {
+    on<E extends keyof NoticeWatcherEvents>(
+        event: E,
+        listener: NoticeWatcherEvents[E]
+    ): this;
+    once<E extends keyof NoticeWatcherEvents>(
+        event: E,
+        listener: NoticeWatcherEvents[E]
+    ): this;
+    off<E extends keyof NoticeWatcherEvents>(
+        event: E,
+        listener: NoticeWatcherEvents[E]
+    ): this;
+    emit<E extends keyof NoticeWatcherEvents>(
+        event: E,
+        ...args: Parameters<NoticeWatcherEvents[E]>
+    ): boolean;
+}
+
+/**
+ * Polls the notices of a set of companies on a schedule, and emits an event for every change since the previous poll.
+ *
+ * Emits `added`, `removed`, `corrected`, `deadlineChanged` and `titleChanged` for notices, dynamic purchasing systems and supplier registers,
+ * `polled` after every poll, and `failed` when getting the notices of a company or using the store fails.
+ * The previous snapshot is kept in the given store, so that changes made while the watcher wasn't running are noticed too.
+ */
+export class NoticeWatcher extends EventEmitter {
+    readonly companyIds: number[];
+    readonly session: Session;
+    readonly interval: number;
+    readonly store: SnapshotStore;
+    readonly emitInitial: boolean;
+    readonly client: TarjouspalveluClient;
+
+    private timer: NodeJS.Timeout | undefined;
+    private running = false;
+
+    /**
+     * @param options - Companies to watch, the session to get the notices with, the poll interval in milliseconds (defaults to 15 minutes),
+     * the snapshot store (defaults to memory), whether to emit `added` for everything found on the first poll, and the client to use
+     */
+    constructor(options: NoticeWatcherOptions) {
+        super();
+
+        this.companyIds = options.companyIds;
+        this.session = options.session;
+        this.interval = options.interval ?? 15 * 60 * 1000;
+        this.store = options.store ?? new MemorySnapshotStore();
+        this.emitInitial = options.emitInitial ?? false;
+        this.client = options.client ?? defaultClient;
+    }
+
+    /**
+     * Start polling. The first poll is done immediately, and the next ones after the interval has passed since the previous one finished.
+     */
+    start(): void {
+        if (this.running) return;
+
+        this.running = true;
+
+        const schedule = async () => {
+            // Failures of single companies are emitted by the poll, so this only catches failures of the store
+            await this.poll().catch((error) => this.emit('failed', error));
+
+            if (this.running) this.timer = setTimeout(schedule, this.interval);
+        };
+
+        schedule();
+    }
+
+    /**
+     * Stop polling. A poll that is already in progress is finished.
+     */
+    stop(): void {
+        this.running = false;
+
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = undefined;
+    }
+
+    /**
+     * Poll all companies once, emit the changes and save the new snapshot
+     *
+     * @returns The new snapshot
+     */
+    async poll(): Promise<NoticeSnapshot> {
+        const previous = await this.store.load();
+
+        const snapshot: NoticeSnapshot = {
+            updated: new Date().toISOString(),
+            companies: { ...previous?.companies },
+        };
+
+        for (const companyId of this.companyIds) {
+            let notices;
+
+            try {
+                notices = await this.client.getNotices(companyId, this.session);
+            } catch (error) {
+                // Keep the previous snapshot of the company, so that a failed poll doesn't look like everything was removed
+                this.emit('failed', error, companyId);
+                continue;
+            }
+
+            const before: CompanySnapshot | undefined =
+                previous?.companies[companyId];
+
+            // Keep the previous supplier registers if only they failed to load, for the same reason
+            const registersError = notices.supplierRegistersError;
+
+            if (registersError) this.emit('failed', registersError, companyId);
+
+            const after: CompanySnapshot = {
+                notices: notices.notices.map(toEntry),
+                dynamicPurchasingSystems: notices.dynamicPurchasingSystems.map(
+                    toEntry
+                ),
+                supplierRegisters: registersError
+                    ? before?.supplierRegisters ?? []
+                    : notices.supplierRegisters.map(toEntry),
+            };
+
+            if (before || this.emitInitial) {
+                this.compare(
+                    companyId,
+                    'notice',
+                    before?.notices ?? [],
+                    notices.notices
+                );
+                this.compare(
+                    companyId,
+                    'dynamicPurchasingSystem',
+                    before?.dynamicPurchasingSystems ?? [],
+                    notices.dynamicPurchasingSystems
+                );
+                if (!registersError)
+                    this.compare(
+                        companyId,
+                        'supplierRegister',
+                        before?.supplierRegisters ?? [],
+                        notices.supplierRegisters
+                    );
+            }
+
+            snapshot.companies[companyId] = after;
+        }
+
+        await this.store.save(snapshot);
+
+        this.emit('polled', snapshot);
+
+        return snapshot;
+    }
+
+    // Emit the events for the differences between the previous entries and the current items of a single type
+    private compare(
+        companyId: number,
+        type: WatchedItemType,
+        before: WatchedEntry[],
+        items: WatchedItem[]
+    ): void {
+        const previousById = new Map(before.map((entry) => [entry.id, entry]));
+        const currentIds = new Set(items.map((item) => item.id));
+
+        for (const item of items) {
+            const previous = previousById.get(item.id);
+            const current = toEntry(item);
+
+            if (!previous) {
+                this.emit('added', { companyId, type, item });
+                continue;
+            }
+
+            if (current.isBeingCorrected !== previous.isBeingCorrected)
+                this.emit('corrected', { companyId, type, item, previous });
+
+            if (
+                current.deadline !== previous.deadline ||
+                current.originalDeadline !== previous.originalDeadline
+            )
+                this.emit('deadlineChanged', {
+                    companyId,
+                    type,
+                    item,
+                    previous,
+                });
+
+            if (current.title !== previous.title)
+                this.emit('titleChanged', { companyId, type, item, previous });
+        }
+
+        for (const previous of before)
+            if (!currentIds.has(previous.id))
+                this.emit('removed', {
+                    companyId,
+                    type,
+                    item: previous,
+                    previous,
+                });
+    }
+}
@@ -0,0 +1,157 @@
+import AdmZip from 'adm-zip';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import {
+    parseAttachmentLinks,
+    saveAllAttachments,
+    TarjouspalveluClient,
+} from '../src';
+import { fakeResponse, languages, readFixture } from './fixtures';
+
+describe.each(languages)('%s', (language) => {
+    test('parseAttachmentLinks', () => {
+        // The ESPD link isn't a file, so it's left out
+        expect(
+            parseAttachmentLinks(readFixture(language, 'notice-attachments'))
+        ).toEqual({
+            attachments: [
+                {
+                    fileName: 'Tarjouspyynto.pdf',
+                    fileUuid: '11111111-2222-3333-4444-555555555555',
+                },
+                {
+                    fileName: 'Hinnoittelu.xlsx',
+                    fileUuid: '66666666-7777-8888-9999-000000000000',
+                },
+            ],
+            links: ['https://www.hel.fi/'],
+        });
+
+        // The dynamic purchasing systems and supplier registers list them the same way
+        expect(
+            parseAttachmentLinks(readFixture(language, 'dps-attachments'))
+                .attachments
+        ).toHaveLength(1);
+        expect(
+            parseAttachmentLinks(readFixture(language, 'supplier-register'))
+                .links
+        ).toEqual(['https://www.hel.fi/kelpuuttaminen']);
+    });
+});
+
+describe('saveAllAttachments', () => {
+    const session = { uuid: 'uuid', id: 'id', token: 'token' };
+
+    let directory: string;
+
+    // A ZIP file with the attachments, a file in a folder and an entry that points outside of the directory it's extracted to
+    const zipFile = () => {
+        const zip = new AdmZip();
+
+        zip.addFile('Tarjouspyynto.pdf', Buffer.from('pdf'));
+        zip.addFile('Liitteet/Hinnoittelu.xlsx', Buffer.from('xlsx'));
+
+        // adm-zip cleans up the names it's given, so the name is written into the file afterwards
+        zip.addFile('__/escape.txt', Buffer.from('escaped'));
+
+        const data = zip.toBuffer();
+        const placeholder = Buffer.from('__/escape.txt');
+
+        for (
+            let index = data.indexOf(placeholder);
+            index !== -1;
+            index = data.indexOf(placeholder)
+        )
+            Buffer.from('../escape.txt').copy(data, index);
+
+        return data;
+    };
+
+    const client = (fileName: string) =>
+        new TarjouspalveluClient({
+            retry: false,
+            transport: async () =>
+                fakeResponse(200, '', {
+                    'content-disposition': `attachment; filename="${fileName}"`,
+                    'content-type': 'application/zip',
+                }),
+        });
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'tarjouspalvelu-'));
+    });
+
+    afterEach(async () => {
+        // Remove everything that was written, including anything that escaped the extract directory
+        const remove = async (target: string): Promise<void> => {
+            if ((await fs.stat(target)).isDirectory()) {
+                for (const entry of await fs.readdir(target))
+                    await remove(path.join(target, entry));
+
+                await fs.rmdir(target);
+            } else await fs.unlink(target);
+        };
+
+        await remove(directory);
+    });
+
+    test('extracts the files and rejects entries outside of the directory', async () => {
+        const zipClient = new TarjouspalveluClient({
+            retry: false,
+            transport: async () => ({
+                status: 200,
+                headers: { 'content-type': 'application/zip' },
+                data: zipFile(),
+            }),
+        });
+
+        const target = path.join(directory, 'notice');
+
+        const saved = await saveAllAttachments(
+            12345,
+            session,
+            target,
+            {
+                extract: true,
+                attachments: [
+                    { fileName: 'Tarjouspyynto.pdf', fileUuid: '1' },
+                    { fileName: 'Hinnoittelu.xlsx', fileUuid: '2' },
+                    { fileName: 'Sopimus.pdf', fileUuid: '3' },
+                ],
+            },
+            zipClient
+        );
+
+        // The files are in the order of the ZIP file, which doesn't matter here
+        expect({ ...saved, files: [...saved.files].sort() }).toEqual({
+            zipPath: null,
+            files: [
+                path.join(target, 'Liitteet', 'Hinnoittelu.xlsx'),
+                path.join(target, 'Tarjouspyynto.pdf'),
+            ],
+            missing: ['Sopimus.pdf'],
+            unexpected: [],
+        });
+        expect(
+            await fs.readFile(path.join(target, 'Tarjouspyynto.pdf'), 'utf8')
+        ).toBe('pdf');
+
+        // Nothing was written next to the directory
+        expect(await fs.readdir(directory)).toEqual(['notice']);
+    });
+
+    test('saves the ZIP file with the name from the response, inside the directory', async () => {
+        const saved = await saveAllAttachments(
+            12345,
+            session,
+            directory,
+            {},
+            client('../12345.zip')
+        );
+
+        expect(saved.zipPath).toBe(path.join(directory, '12345.zip'));
+        expect(await fs.readdir(directory)).toEqual(['12345.zip']);
+    });
+});
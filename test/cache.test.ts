@@ -0,0 +1,191 @@
+import {
+    CacheEndpoint,
+    ClientOptions,
+    ClientRequest,
+    Language,
+    MemoryResponseCacheStore,
+    responseCacheKey,
+    Session,
+    TarjouspalveluClient,
+    TransportResponse,
+} from '../src';
+import { fakeResponse } from './fixtures';
+
+// A caching client whose transport answers every request with the response of the test, and counts the requests
+const countingClient = (
+    response: () => TransportResponse | Promise<TransportResponse>,
+    options: ClientOptions = {}
+) => {
+    const counter = { requests: 0 };
+
+    const client = new TarjouspalveluClient({
+        retry: false,
+        cache: true,
+        ...options,
+        transport: async () => {
+            counter.requests++;
+            return response();
+        },
+    });
+
+    return { client, counter };
+};
+
+const noticesRequest = (session?: Session): ClientRequest => ({
+    path: '/tarjouspyynnot.aspx?p=13&g=uuid',
+    cache: CacheEndpoint.Notices,
+    session,
+});
+
+describe('response cache', () => {
+    test('session pages are cached separately for each session, login and language', async () => {
+        const { client, counter } = countingClient(() =>
+            fakeResponse(200, 'notices')
+        );
+
+        const sessions: Session[] = [
+            { uuid: 'uuid', id: 'id' },
+            { uuid: 'uuid', id: 'other-id' },
+            { uuid: 'uuid', id: 'id', token: 'token' },
+            { uuid: 'uuid', id: 'id', language: Language.Sv },
+        ];
+
+        for (const session of sessions)
+            await client.requestRaw(noticesRequest(session));
+
+        expect(counter.requests).toBe(sessions.length);
+
+        // The same pages again come from the cache
+        for (const session of sessions)
+            await client.requestRaw(noticesRequest({ ...session }));
+
+        expect(counter.requests).toBe(sessions.length);
+    });
+
+    test('the session is not in the cache key', () => {
+        const key = responseCacheKey(
+            CacheEndpoint.Notices,
+            'https://tarjouspalvelu.fi/tarjouspyynnot.aspx',
+            noticesRequest({ uuid: 'uuid', id: 'secret-id', token: 'secret' })
+        );
+
+        expect(key).toMatch(/^tarjouspalvelu:notices:[0-9a-f]{64}$/);
+        expect(key).not.toContain('secret');
+    });
+
+    test('session pages are not cached when sessionPages is false', async () => {
+        const { client, counter } = countingClient(
+            () => fakeResponse(200, 'notices'),
+            { cache: { sessionPages: false } }
+        );
+
+        const session = { uuid: 'uuid', id: 'id' };
+
+        await client.requestRaw(noticesRequest(session));
+        await client.requestRaw(noticesRequest(session));
+
+        expect(counter.requests).toBe(2);
+    });
+
+    test('redirects of session pages are not cached', async () => {
+        const { client, counter } = countingClient(() =>
+            fakeResponse(302, '', { location: '/Default/Index' })
+        );
+
+        const session = { uuid: 'uuid', id: 'id' };
+
+        await client.requestRaw(noticesRequest(session));
+        await client.requestRaw(noticesRequest(session));
+
+        expect(counter.requests).toBe(2);
+    });
+
+    test('redirects without a session are cached', async () => {
+        const { client, counter } = countingClient(() =>
+            fakeResponse(302, '', { location: '/tarjouspyynnot.aspx?p=13' })
+        );
+
+        const request: ClientRequest = {
+            path: '/helsinki',
+            cache: CacheEndpoint.CompanySlug,
+        };
+
+        await client.requestRaw(request);
+        const cached = await client.requestRaw(request);
+
+        expect(counter.requests).toBe(1);
+        expect(cached).toMatchObject({
+            status: 302,
+            headers: { location: '/tarjouspyynnot.aspx?p=13' },
+        });
+    });
+
+    test('errors are not cached', async () => {
+        const { client, counter } = countingClient(() => fakeResponse(500));
+
+        await client.requestRaw(noticesRequest());
+        await client.requestRaw(noticesRequest());
+
+        expect(counter.requests).toBe(2);
+    });
+
+    test('identical requests on their way share one request', async () => {
+        let respond: (response: TransportResponse) => void = () => undefined;
+
+        const { client, counter } = countingClient(
+            () =>
+                new Promise<TransportResponse>((resolve) => {
+                    respond = resolve;
+                })
+        );
+
+        const first = client.requestRaw(noticesRequest());
+        const second = client.requestRaw(noticesRequest());
+
+        // Let the first request reach the transport
+        await new Promise((resolve) => setImmediate(resolve));
+        respond(fakeResponse(200, 'notices'));
+
+        const responses = await Promise.all([first, second]);
+
+        expect(counter.requests).toBe(1);
+        expect(responses[0]).toBe(responses[1]);
+        expect(responses[0].data.toString()).toBe('notices');
+
+        // A request after the shared one is answered from the cache
+        await client.requestRaw(noticesRequest());
+        expect(counter.requests).toBe(1);
+    });
+
+    test('requests of different sessions on their way are not shared', async () => {
+        const { client, counter } = countingClient(() =>
+            fakeResponse(200, 'notices')
+        );
+
+        await Promise.all([
+            client.requestRaw(noticesRequest({ uuid: 'uuid', id: 'id' })),
+            client.requestRaw(noticesRequest({ uuid: 'uuid', id: 'other-id' })),
+        ]);
+
+        expect(counter.requests).toBe(2);
+    });
+});
+
+describe('MemoryResponseCacheStore', () => {
+    const response = { status: 200, headers: {}, data: '' };
+
+    test('drops expired and the oldest responses', async () => {
+        const store = new MemoryResponseCacheStore(2);
+
+        await store.set('expired', response, -1);
+        expect(await store.get('expired')).toBeUndefined();
+
+        await store.set('first', response, 60 * 1000);
+        await store.set('second', response, 60 * 1000);
+        await store.set('third', response, 60 * 1000);
+
+        expect(await store.get('first')).toBeUndefined();
+        expect(await store.get('second')).toBe(response);
+        expect(await store.get('third')).toBe(response);
+    });
+});
@@ -0,0 +1,277 @@
+import {
+    getCompanies,
+    getNotices,
+    Language,
+    NetworkError,
+    ParseError,
+    ParseHookEvent,
+    Session,
+    SessionExpiredError,
+    TarjouspalveluClient,
+    Transport,
+} from '../src';
+import { fakeResponse, readFixture } from './fixtures';
+
+const uuid = '12345678-90ab-cdef-1234-567890abcdef';
+
+const newSession = (): Session => ({ uuid, id: 'secret-session-id' });
+
+describe('redaction', () => {
+    test('network errors and the onError hook', async () => {
+        const hookErrors: Error[] = [];
+
+        // Fail like axios does, with the request config in the error
+        const transport: Transport = async (request) => {
+            throw Object.assign(new Error('socket hang up'), {
+                code: 'ECONNRESET',
+                config: { url: request.url, headers: request.headers },
+            });
+        };
+
+        const client = new TarjouspalveluClient({
+            transport,
+            retry: false,
+            hooks: { onError: ({ error }) => hookErrors.push(error) },
+        });
+
+        const error = await getNotices(13, newSession(), client).catch(
+            (error) => error
+        );
+
+        expect(error).toBeInstanceOf(NetworkError);
+        expect(error.message).not.toContain(uuid);
+        expect(error.url).toContain('g=[redacted]');
+        expect(error.cause).toMatchObject({ code: 'ECONNRESET' });
+        expect(error.cause).not.toHaveProperty('config');
+
+        expect(hookErrors).toHaveLength(1);
+        expect(hookErrors[0]).not.toHaveProperty('config');
+        expect(JSON.stringify(hookErrors[0])).not.toContain(
+            'secret-session-id'
+        );
+    });
+
+    test('session and parse errors', async () => {
+        const parseEvents: ParseHookEvent[] = [];
+
+        let status = 302;
+
+        const client = new TarjouspalveluClient({
+            transport: async () => ({
+                status,
+                headers: {},
+                data: Buffer.from('<html></html>'),
+            }),
+            hooks: { onParse: (event) => parseEvents.push(event) },
+        });
+
+        const expired = await getNotices(13, newSession(), client).catch(
+            (error) => error
+        );
+
+        expect(expired).toBeInstanceOf(SessionExpiredError);
+        expect(expired.url).not.toContain(uuid);
+
+        status = 200;
+
+        const unparsable = await getNotices(13, newSession(), client).catch(
+            (error) => error
+        );
+
+        expect(unparsable).toBeInstanceOf(ParseError);
+        expect(unparsable.url).toContain('g=[redacted]');
+        expect(parseEvents[0].error).toBe(unparsable);
+        expect(parseEvents[0].url).not.toContain(uuid);
+    });
+});
+
+describe('extend', () => {
+    test('shares the managed sessions and the cache', async () => {
+        let sessions = 0;
+        let companyPages = 0;
+
+        const client = new TarjouspalveluClient({
+            manageSessions: true,
+            cache: true,
+            transport: async (request) => {
+                if (request.url.endsWith('/Default/Index')) {
+                    companyPages++;
+                    return { status: 200, headers: {}, data: Buffer.from('') };
+                }
+
+                sessions++;
+
+                return {
+                    status: 302,
+                    headers: {
+                        location: `/tarjouspyynnot.aspx?p=13&g=uuid-${sessions}`,
+                        'set-cookie': `ASP.NET_SessionId_TP=id-${sessions}; path=/`,
+                    },
+                    data: Buffer.from(''),
+                };
+            },
+        });
+
+        const extended = client.extend({ retry: false });
+
+        const session = await client.getSession('helsinki');
+        await extended.renewSession(session);
+
+        expect(session).toMatchObject({ uuid: 'uuid-2', id: 'id-2' });
+
+        await getCompanies(false, extended);
+        await getCompanies(false, client);
+
+        expect(companyPages).toBe(1);
+    });
+});
+
+describe('managed sessions', () => {
+    // A fake site that creates sessions, logs them in and sets their language, and whose sessions can be expired
+    const fakeSite = () => {
+        const site = {
+            sessions: 0,
+            logins: 0,
+            noticePages: 0,
+            valid: new Set<string>(),
+            languages: new Map<string, string>(),
+            // Whether new sessions expire right away
+            expireNew: false,
+        };
+
+        const languageTargets: Record<string, string> = {
+            ctl00$header$Kieli_fiFI: 'fi-FI',
+            ctl00$header$Kieli_svSE: 'sv-SE',
+            ctl00$header$Kieli_enGB: 'en-GB',
+            ctl00$header$LinkButton1: 'da-DK',
+        };
+
+        const transport: Transport = async ({ method, url, headers, data }) => {
+            if (url.endsWith('/helsinki')) {
+                const id = `id-${++site.sessions}`;
+                if (!site.expireNew || site.sessions === 1) site.valid.add(id);
+
+                return fakeResponse(302, '', {
+                    location: `/tarjouspyynnot.aspx?p=13&g=uuid-${site.sessions}`,
+                    'set-cookie': `ASP.NET_SessionId_TP=${id}; path=/`,
+                });
+            }
+
+            const id = headers.Cookie.match(/TP=(.*?);/)?.[1] ?? '';
+
+            if (!site.valid.has(id))
+                return fakeResponse(302, '', { location: '/Default/Index' });
+
+            if (url.includes('KelpuuttamisJarjestelmatLista'))
+                return fakeResponse(
+                    200,
+                    readFixture(Language.Fi, 'supplier-registers')
+                );
+
+            const form = new URLSearchParams(data ?? '');
+
+            if (method === 'POST' && form.has('__EVENTTARGET')) {
+                const language =
+                    languageTargets[form.get('__EVENTTARGET') ?? ''];
+                site.languages.set(id, language);
+
+                return fakeResponse(302, '', {
+                    'set-cookie': `tarjouspalvelu.fi=culture=${language}&Expires=0; path=/`,
+                });
+            }
+
+            if (method === 'POST') {
+                site.logins++;
+
+                return fakeResponse(302, '', {
+                    'set-cookie': `TarjPalv=token-${id}; path=/`,
+                });
+            }
+
+            if (!url.includes('tarjouspyynnot.aspx')) return fakeResponse(404);
+
+            site.noticePages++;
+
+            return fakeResponse(200, readFixture(Language.Fi, 'notices'));
+        };
+
+        return { site, transport };
+    };
+
+    test('an expired session is renewed, logged in and given its language, and the call is retried once', async () => {
+        const { site, transport } = fakeSite();
+        const client = new TarjouspalveluClient({
+            manageSessions: true,
+            retry: false,
+            transport,
+        });
+
+        const session = await client.loginToSession(
+            'helsinki',
+            'user',
+            'password'
+        );
+        await client.setSessionLanguage(13, Language.En, session);
+
+        expect(session).toMatchObject({ id: 'id-1', token: 'token-id-1' });
+
+        // The site forgets the session
+        site.valid.clear();
+        site.noticePages = 0;
+
+        const notices = await client.getNotices(13, session);
+
+        expect(notices.notices).toHaveLength(2);
+        expect(session).toMatchObject({
+            uuid: 'uuid-2',
+            id: 'id-2',
+            token: 'token-id-2',
+            language: Language.En,
+        });
+        // The login of the renewal resolves the slug with a request of its own
+        expect(site.sessions).toBe(3);
+        expect(site.logins).toBe(2);
+        expect(site.languages.get('id-2')).toBe('en-GB');
+
+        // The page of the retried call, after the pages loaded for logging in and setting the language
+        expect(site.noticePages).toBe(3);
+    });
+
+    test('a session that expires again after the renewal is a SessionExpiredError', async () => {
+        const { site, transport } = fakeSite();
+        const client = new TarjouspalveluClient({
+            manageSessions: true,
+            retry: false,
+            transport,
+        });
+
+        const session = await client.getSession('helsinki');
+
+        site.valid.clear();
+        site.expireNew = true;
+
+        const error = await client
+            .getNotices(13, session)
+            .catch((error) => error);
+
+        expect(error).toBeInstanceOf(SessionExpiredError);
+
+        // The call was retried exactly once, with one renewed session
+        expect(site.sessions).toBe(2);
+        expect(session.id).toBe('id-2');
+    });
+
+    test('sessions that the client does not manage are not renewed', async () => {
+        const { site, transport } = fakeSite();
+        const client = new TarjouspalveluClient({ retry: false, transport });
+
+        const session = await client.getSession('helsinki');
+
+        site.valid.clear();
+
+        await expect(client.getNotices(13, session)).rejects.toBeInstanceOf(
+            SessionExpiredError
+        );
+        expect(site.sessions).toBe(1);
+    });
+});
@@ -0,0 +1,194 @@
+import {
+    getNotices,
+    Language,
+    NetworkError,
+    NoticeFlag,
+    NoticeType,
+    parseCompaniesPage,
+    ParseError,
+    parseNoticesPage,
+    parseSupplierRegisterList,
+    TarjouspalveluClient,
+} from '../src';
+import { fixtureTexts, languages, readFixture } from './fixtures';
+
+describe.each(languages)('%s', (language) => {
+    const texts = fixtureTexts[language];
+
+    test('parseCompaniesPage', () => {
+        expect(parseCompaniesPage(readFixture(language, 'companies'))).toEqual([
+            {
+                id: 13,
+                slug: 'helsinki',
+                name: 'Helsingin kaupunki',
+                logo: undefined,
+                logoPath: '/Default/Image/13',
+            },
+            {
+                id: 90,
+                slug: 'hansel',
+                name: 'Hansel Oy',
+                logo: undefined,
+                logoPath: '/Default/Image/90',
+            },
+        ]);
+    });
+
+    test('parseNoticesPage', () => {
+        const notices = parseNoticesPage(readFixture(language, 'notices'));
+
+        expect(notices.language).toBe(language);
+        expect(notices.supplierRegisters).toEqual([]);
+
+        expect(notices.dynamicPurchasingSystems).toMatchObject([
+            {
+                id: 1001,
+                customId: 'HEL 2021-001',
+                unit: texts.unit,
+                title: texts.dynamicPurchasingSystems[0],
+                isBeingCorrected: false,
+                additionalDesc: undefined,
+                deadline: new Date('2023-12-31T21:59:00.000Z'),
+                deadlineHasTime: true,
+            },
+            {
+                id: 1002,
+                customId: 'HEL 2021-002',
+                title: texts.dynamicPurchasingSystems[1],
+                isBeingCorrected: true,
+                deadline: null,
+                deadlineHasTime: null,
+                originalDeadline: null,
+            },
+        ]);
+
+        expect(notices.notices).toMatchObject([
+            {
+                id: 12345,
+                customId: 'HEL 2021-010',
+                unit: texts.unit,
+                title: texts.notices[0],
+                flags: [NoticeFlag.EuThreshold],
+                originalFlags: ['eu'],
+                types: [NoticeType.Services, NoticeType.ContractNotice],
+                originalTypes: texts.types,
+                isBeingCorrected: false,
+                deadline: new Date('2021-03-15T10:00:00.000Z'),
+                deadlineHasTime: true,
+            },
+            {
+                id: 12346,
+                customId: 'HEL 2021-011',
+                title: texts.notices[1],
+                flags: [NoticeFlag.SmallProcurement],
+                originalFlags: ['pienhankinta'],
+                types: [NoticeType.Supplies],
+                isBeingCorrected: true,
+                deadline: new Date('2021-03-31T21:00:00.000Z'), // Midnight in Helsinki summer time
+                deadlineHasTime: false,
+            },
+        ]);
+    });
+
+    test.each([
+        [
+            'DPSKasittely.aspx?p=13&amp;tpID=1001',
+            '#DPSIlmoituslista > tbody > tr a',
+        ],
+        [
+            'tpKasittely.aspx?p=13&amp;tpID=12346',
+            '#ctl00_PageContent_GridView1 > tbody > tr a',
+        ],
+    ])('parseNoticesPage without the link %s', (link, selector) => {
+        // The same page with the link of one row removed
+        const html = readFixture(language, 'notices').replace(
+            `<td><a href="../Tarjouspalvelu/${link}">&raquo;</a></td>`,
+            '<td></td>'
+        );
+
+        let error: ParseError | undefined;
+
+        try {
+            parseNoticesPage(html);
+        } catch (parseError) {
+            error = parseError;
+        }
+
+        expect(error).toBeInstanceOf(ParseError);
+        expect(error?.selector).toBe(selector);
+    });
+
+    test('parseSupplierRegisterList', () => {
+        const registers = parseSupplierRegisterList(
+            readFixture(language, 'supplier-registers'),
+            language
+        );
+
+        expect(registers).toMatchObject([
+            {
+                id: 501,
+                customId: 'HEL KJ-001',
+                unit: texts.unit,
+                title: texts.supplierRegisters[0],
+                isBeingCorrected: false,
+                deadline: new Date('2025-12-31T14:00:00.000Z'),
+                deadlineHasTime: true,
+            },
+            {
+                id: 502,
+                customId: 'HEL KJ-002',
+                title: texts.supplierRegisters[1],
+                isBeingCorrected: true,
+                deadline: null,
+                deadlineHasTime: null,
+            },
+        ]);
+    });
+
+    test('parseSupplierRegisterList with a link without the id', () => {
+        // The same page with the id removed from the link of one row
+        const html = readFixture(language, 'supplier-registers').replace(
+            'KelpuuttamisJarjestelma?pid=13&amp;id=502',
+            'KelpuuttamisJarjestelma?pid=13'
+        );
+
+        let error: ParseError | undefined;
+
+        try {
+            parseSupplierRegisterList(html, language);
+        } catch (parseError) {
+            error = parseError;
+        }
+
+        expect(error).toBeInstanceOf(ParseError);
+        expect(error?.selector).toBe('table > tbody > tr a');
+    });
+});
+
+describe('getNotices', () => {
+    test('returns the notices when the supplier registers fail', async () => {
+        const client = new TarjouspalveluClient({
+            retry: false,
+            transport: async ({ url }) =>
+                url.includes('KelpuuttamisJarjestelmatLista')
+                    ? { status: 500, headers: {}, data: Buffer.from('') }
+                    : {
+                          status: 200,
+                          headers: {},
+                          data: Buffer.from(
+                              readFixture(Language.Fi, 'notices')
+                          ),
+                      },
+        });
+
+        const notices = await getNotices(
+            13,
+            { uuid: 'uuid', id: 'id' },
+            client
+        );
+
+        expect(notices.notices).toHaveLength(2);
+        expect(notices.supplierRegisters).toEqual([]);
+        expect(notices.supplierRegistersError).toBeInstanceOf(NetworkError);
+    });
+});
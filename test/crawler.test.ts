@@ -0,0 +1,82 @@
+import {
+    Company,
+    crawlNotices,
+    CrawlResult,
+    InvalidCompanySlugError,
+    Language,
+    TarjouspalveluClient,
+} from '../src';
+import { readFixture } from './fixtures';
+
+const companies: Company[] = [
+    { id: 1, slug: 'missing', name: 'Missing', logo: undefined },
+    { id: 13, slug: 'helsinki', name: 'Helsingin kaupunki', logo: undefined },
+];
+
+// Creates sessions for every company but the missing one, and answers the notices pages with the fixture
+const client = new TarjouspalveluClient({
+    retry: false,
+    transport: async ({ url }) => {
+        if (url.endsWith('/missing'))
+            return {
+                status: 302,
+                headers: { location: '/Default/Index' },
+                data: Buffer.from(''),
+            };
+
+        if (url.endsWith('/helsinki'))
+            return {
+                status: 302,
+                headers: {
+                    location: '/tarjouspyynnot.aspx?p=13&g=uuid',
+                    'set-cookie': 'ASP.NET_SessionId_TP=id; path=/',
+                },
+                data: Buffer.from(''),
+            };
+
+        return {
+            status: 200,
+            headers: {},
+            data: Buffer.from(
+                readFixture(
+                    Language.Fi,
+                    url.includes('KelpuuttamisJarjestelmatLista')
+                        ? 'supplier-registers'
+                        : 'notices'
+                )
+            ),
+        };
+    },
+});
+
+describe('crawlNotices', () => {
+    test('a failing session is the error of its company only', async () => {
+        const results: CrawlResult[] = [];
+
+        for await (const result of crawlNotices({
+            companies,
+            concurrency: 1,
+            client,
+        }))
+            results.push(result);
+
+        expect(results).toHaveLength(2);
+        expect(results[0].error).toBeInstanceOf(InvalidCompanySlugError);
+        expect(results[1].notices?.notices).toHaveLength(2);
+    });
+
+    test('an error thrown by onProgress is thrown from the iterator', async () => {
+        const crawl = async () => {
+            for await (const result of crawlNotices({
+                companies,
+                client,
+                onProgress: () => {
+                    throw new Error('progress failed');
+                },
+            }))
+                expect(result).toBeUndefined();
+        };
+
+        await expect(crawl()).rejects.toThrow('progress failed');
+    });
+});
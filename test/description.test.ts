@@ -0,0 +1,37 @@
+import {
+    descriptionToMarkdown,
+    descriptionToText,
+    sanitizeDescription,
+} from '../src';
+
+describe('descriptions', () => {
+    test('stray closing tags', () => {
+        const html = '<div>a</div></div><p>after close</p>';
+
+        expect(descriptionToText(html)).toBe('a\n\nafter close');
+        expect(descriptionToMarkdown(html)).toBe('a\n\nafter close');
+        expect(sanitizeDescription(html)).toBe('a<p>after close</p>');
+    });
+
+    test('Markdown syntax at the start of a line', () => {
+        expect(
+            descriptionToMarkdown(
+                '<p># x</p><p>1. y</p><p>- z</p><p>> q</p><p>a<br>+ b</p>'
+            )
+        ).toBe('\\# x\n\n1\\. y\n\n\\- z\n\n\\> q\n\na  \n\\+ b');
+    });
+
+    test('Markdown syntax inside a line', () => {
+        expect(descriptionToMarkdown('<p>Lots 1. and 2. - # 3</p>')).toBe(
+            'Lots 1. and 2. - # 3'
+        );
+    });
+
+    test('Markdown written from the description is kept', () => {
+        expect(
+            descriptionToMarkdown(
+                '<h2>Lots</h2><ol><li>First</li><li>Second</li></ol>'
+            )
+        ).toBe('## Lots\n\n1. First\n2. Second');
+    });
+});
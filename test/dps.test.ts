@@ -0,0 +1,51 @@
+import { parseDynamicPurchasingSystemDetails } from '../src';
+import { fixtureTexts, languages, readFixture } from './fixtures';
+
+describe.each(languages)('%s', (language) => {
+    const texts = fixtureTexts[language];
+
+    test('parseDynamicPurchasingSystemDetails', () => {
+        const dps = parseDynamicPurchasingSystemDetails(
+            1001,
+            readFixture(language, 'dps-processing'),
+            readFixture(language, 'dps-details'),
+            readFixture(language, 'dps-attachments')
+        );
+
+        expect(dps).toMatchObject({
+            id: 1001,
+            customId: 'HEL 2021-001',
+            unit: texts.unit,
+            title: texts.dynamicPurchasingSystems[0],
+            published: new Date('2021-02-28T22:00:00.000Z'),
+            validFrom: new Date('2021-03-09T22:00:00.000Z'),
+            validUntil: new Date('2023-12-31T21:59:00.000Z'),
+            categories: texts.categories,
+            attachments: [
+                {
+                    fileName: 'Hankintajarjestelma.pdf',
+                    fileUuid: 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee',
+                },
+            ],
+            links: ['https://www.hel.fi/siivous'],
+        });
+
+        expect(dps.descriptionText).toBeTruthy();
+    });
+
+    test('parseDynamicPurchasingSystemDetails without a start date', () => {
+        const details = readFixture(language, 'dps-details').replace(
+            /(<span id="valVoimassaAlkaen">)[^<]*/,
+            '$1'
+        );
+
+        expect(
+            parseDynamicPurchasingSystemDetails(
+                1001,
+                readFixture(language, 'dps-processing'),
+                details,
+                readFixture(language, 'dps-attachments')
+            )
+        ).toMatchObject({ validFrom: null, originalValidFrom: null });
+    });
+});
@@ -0,0 +1,62 @@
+import {
+    Company,
+    Language,
+    noticesToICalendar,
+    parseNoticesPage,
+} from '../src';
+import { readFixture } from './fixtures';
+
+const notices = parseNoticesPage(readFixture(Language.Fi, 'notices'));
+
+describe('noticesToICalendar', () => {
+    test('deadlines with and without a time', () => {
+        const calendar = noticesToICalendar(notices.notices);
+
+        expect(calendar).toContain(
+            'UID:notice-12345@tarjouspalvelu.fi\r\nDTSTAMP:'
+        );
+        expect(calendar).toContain(
+            'DTSTART:20210315T100000Z\r\nDTEND:20210315T100000Z\r\n'
+        );
+
+        // Midnight in Helsinki is still the previous day in UTC
+        expect(calendar).toContain(
+            'DTSTART;VALUE=DATE:20210401\r\nDTEND;VALUE=DATE:20210402\r\n'
+        );
+    });
+
+    test('links to the notices through the public page of the company', () => {
+        expect(noticesToICalendar(notices.notices)).not.toContain('URL:');
+
+        const calendar = noticesToICalendar(notices, {
+            companySlug: 'helsinki',
+        });
+
+        expect(calendar).toContain(
+            'URL:https://tarjouspalvelu.fi/helsinki?id=12345\r\n'
+        );
+        expect(calendar).toContain(
+            'URL:https://tarjouspalvelu.fi/helsinki?id=12346\r\n'
+        );
+    });
+
+    test('links to the company of each notice', () => {
+        const company: Company = {
+            id: 90,
+            slug: 'hansel',
+            name: 'Hansel Oy',
+            logo: undefined,
+        };
+
+        const calendar = noticesToICalendar([{ company, notices }], {
+            companySlug: 'helsinki',
+        }).replace(/\r\n /g, ''); // Unfold the long lines
+
+        // The notice page needs a session, so the link goes through the public page of the company
+        expect(calendar).toContain(
+            'URL:https://tarjouspalvelu.fi/hansel?id=12345\r\n'
+        );
+        expect(calendar).not.toContain('helsinki');
+        expect(calendar).not.toContain('tpKasittely');
+    });
+});
@@ -0,0 +1,120 @@
+import fs from 'fs';
+import path from 'path';
+
+import { Language, ResponseHeaders, TransportResponse } from '../src';
+
+/**
+ * The languages every page is saved in, which are also the names of their directories
+ */
+export const languages = Object.values(Language);
+
+/**
+ * Read a saved page
+ *
+ * @param language - The language the page was saved in
+ * @param name     - The name of the page, without the extension
+ *
+ * @returns The HTML of the page
+ */
+export const readFixture = (language: Language, name: string): string =>
+    fs.readFileSync(
+        path.join(__dirname, 'fixtures', language, `${name}.html`),
+        'utf8'
+    );
+
+/**
+ * Build a response for a fake transport
+ *
+ * @param status  - The HTTP status of the response
+ * @param data    - The body of the response
+ * @param headers - The headers of the response
+ *
+ * @returns The response
+ */
+export const fakeResponse = (
+    status: number,
+    data = '',
+    headers: ResponseHeaders = {}
+): TransportResponse => ({ status, headers, data: Buffer.from(data) });
+
+/**
+ * The texts of the saved pages that differ between the languages
+ */
+export const fixtureTexts: Record<
+    Language,
+    {
+        unit: string;
+        dynamicPurchasingSystems: string[];
+        notices: string[];
+        supplierRegisters: string[];
+        types: string[];
+        procedure: string;
+        selectionCriteria: string;
+        categories: string[];
+    }
+> = {
+    [Language.Fi]: {
+        unit: 'Helsingin kaupunki',
+        dynamicPurchasingSystems: [
+            'Siivouspalveluiden dynaaminen hankintajärjestelmä',
+            'Tulkkauspalveluiden dynaaminen hankintajärjestelmä',
+        ],
+        notices: ['Koulujen ruokapalvelut', 'Toimistotarvikkeet'],
+        supplierRegisters: [
+            'Rakennusurakoitsijoiden kelpuuttamisjärjestelmä',
+            'Konsulttien kelpuuttamisjärjestelmä',
+        ],
+        types: ['Palvelut', 'Hankintailmoitus'],
+        procedure: 'Avoin menettely',
+        selectionCriteria: 'Kokonaistaloudellinen edullisuus',
+        categories: ['Siivouspalvelut', 'Kiinteistöpalvelut'],
+    },
+    [Language.Sv]: {
+        unit: 'Helsingfors stad',
+        dynamicPurchasingSystems: [
+            'Dynamiskt inköpssystem för städtjänster',
+            'Dynamiskt inköpssystem för tolkningstjänster',
+        ],
+        notices: ['Måltidstjänster för skolor', 'Kontorsmaterial'],
+        supplierRegisters: [
+            'Kvalificeringssystem för byggentreprenörer',
+            'Kvalificeringssystem för konsulter',
+        ],
+        types: ['Tjänster', 'Upphandlingsannons'],
+        procedure: 'Öppet förfarande',
+        selectionCriteria: 'Det ekonomiskt mest fördelaktiga anbudet',
+        categories: ['Städtjänster', 'Fastighetstjänster'],
+    },
+    [Language.En]: {
+        unit: 'City of Helsinki',
+        dynamicPurchasingSystems: [
+            'Dynamic purchasing system for cleaning services',
+            'Dynamic purchasing system for interpreting services',
+        ],
+        notices: ['School catering services', 'Office supplies'],
+        supplierRegisters: [
+            'Qualification system for building contractors',
+            'Qualification system for consultants',
+        ],
+        types: ['Services', 'Contract notice'],
+        procedure: 'Open procedure',
+        selectionCriteria: 'Most economically advantageous tender',
+        categories: ['Cleaning services', 'Property services'],
+    },
+    [Language.Da]: {
+        unit: 'Helsingfors Kommune',
+        dynamicPurchasingSystems: [
+            'Dynamisk indkøbssystem for rengøringsydelser',
+            'Dynamisk indkøbssystem for tolkeydelser',
+        ],
+        notices: ['Skolemadsordning', 'Kontorartikler'],
+        supplierRegisters: [
+            'Kvalifikationsordning for bygningsentreprenører',
+            'Kvalifikationsordning for konsulenter',
+        ],
+        types: ['Tjenesteydelser', 'Udbudsbekendtgørelse'],
+        procedure: 'Offentligt udbud',
+        selectionCriteria: 'Det økonomisk mest fordelagtige tilbud',
+        categories: ['Rengøringsydelser', 'Ejendomsservice'],
+    },
+};
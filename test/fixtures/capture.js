@@ -0,0 +1,116 @@
+// Save the pages of the fixtures from the site in every language, with the session removed from them:
+//
+//   yarn compile
+//   TARJOUSPALVELU_PASSWORD=... node test/fixtures/capture.js <slug> <username> <noticeId> <awardNoticeId> <dpsId> <registerId>
+//
+// The notice, award notice and dynamic purchasing system are opened with the account, and the tenders created for them are removed afterwards.
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const tp = require('../../lib');
+
+const [slug, username, noticeId, awardNoticeId, dpsId, registerId] =
+    process.argv.slice(2);
+
+// The pages to save from each call, by the operation they are loaded for
+const captures = (companyId, session) => [
+    {
+        run: (client) => tp.getCompanies(false, client),
+        pages: { getCompanies: 'companies' },
+    },
+    {
+        run: (client) => tp.getNotices(companyId, session, client),
+        pages: {
+            'getNotices.notices': 'notices',
+            getSupplierRegisters: 'supplier-registers',
+        },
+    },
+    {
+        run: (client) =>
+            tp.getNotice(companyId, +noticeId, session, true, client),
+        pages: {
+            'getNotice.notice': 'notice-processing',
+            'getNotice.details': 'notice-details',
+            'getNotice.attachments': 'notice-attachments',
+            getTenderId: 'tenders',
+        },
+    },
+    {
+        run: (client) =>
+            tp.getNotice(companyId, +awardNoticeId, session, true, client),
+        pages: { 'getNotice.details': 'notice-award-details' },
+    },
+    {
+        run: (client) =>
+            tp.getDynamicPurchasingSystem(
+                companyId,
+                +dpsId,
+                session,
+                true,
+                client
+            ),
+        pages: {
+            'getDynamicPurchasingSystem.dps': 'dps-processing',
+            'getDynamicPurchasingSystem.details': 'dps-details',
+            'getDynamicPurchasingSystem.attachments': 'dps-attachments',
+        },
+    },
+    {
+        run: (client) =>
+            tp.getSupplierRegister(companyId, +registerId, session, client),
+        pages: { getSupplierRegister: 'supplier-register' },
+    },
+];
+
+const run = async () => {
+    if (!registerId || !process.env.TARJOUSPALVELU_PASSWORD)
+        throw new Error(
+            'Usage: TARJOUSPALVELU_PASSWORD=... node test/fixtures/capture.js <slug> <username> <noticeId> <awardNoticeId> <dpsId> <registerId>'
+        );
+
+    const companyId = await tp.companySlugToId(slug);
+    const session = await tp.loginToSession(
+        slug,
+        username,
+        process.env.TARJOUSPALVELU_PASSWORD
+    );
+
+    for (const language of Object.values(tp.Language)) {
+        await tp.setSessionLanguage(companyId, language, session);
+
+        for (const { run, pages } of captures(companyId, session)) {
+            const directory = fs.mkdtempSync(
+                path.join(os.tmpdir(), 'tarjouspalvelu-')
+            );
+
+            await run(new tp.TarjouspalveluClient({ debugDirectory: directory }));
+
+            // The debug pages are named <time>-<count>-<operation>.html, and the first page of each operation is kept
+            for (const file of fs.readdirSync(directory).sort()) {
+                const name = pages[file.replace(/^\d+-\d+-|\.html$/g, '')];
+                const target = path.join(__dirname, language, `${name}.html`);
+
+                if (name && !fs.existsSync(`${target}.new`))
+                    fs.copyFileSync(path.join(directory, file), `${target}.new`);
+            }
+
+            fs.rmSync(directory, { recursive: true });
+        }
+
+        // Replace the pages only after all of them were saved
+        for (const file of fs.readdirSync(path.join(__dirname, language)))
+            if (file.endsWith('.new'))
+                fs.renameSync(
+                    path.join(__dirname, language, file),
+                    path.join(__dirname, language, file.slice(0, -4))
+                );
+
+        console.log(`Saved the pages in ${language}`);
+    }
+};
+
+run().catch((error) => {
+    console.error(error.message);
+    process.exitCode = 1;
+});
@@ -0,0 +1,33 @@
+import { NoticeFlag, parseFlagIconName, parseNoticeFlag } from '../src';
+import { languages, readFixture } from './fixtures';
+
+describe('flags', () => {
+    test.each([
+        ['../images/ikoni_eu.gif', 'eu'],
+        ['../images/pienhankinta_ikoni.png', 'pienhankinta'],
+        ['/images/Other-Icon.png', 'other-icon'],
+    ])('parseFlagIconName(%s)', (src, name) => {
+        expect(parseFlagIconName(src)).toBe(name);
+    });
+
+    test.each(languages)('the icons of the notices page in %s', (language) => {
+        const icons = readFixture(language, 'notices').match(
+            /[^"]*ikoni[^"]*/g
+        );
+
+        expect(icons?.map(parseNoticeFlag)).toEqual([
+            NoticeFlag.EuThreshold,
+            NoticeFlag.SmallProcurement,
+        ]);
+    });
+
+    test.each([
+        ['../images/ikoni_eu.gif', NoticeFlag.EuThreshold],
+        ['../images/ikoni_kansallinen.gif', NoticeFlag.National],
+        ['../images/pienhankinta_ikoni.png', NoticeFlag.SmallProcurement],
+        ['../images/ikoni_sahkoinen.gif', NoticeFlag.ElectronicTendering],
+        ['../images/ikoni_uusi.gif', NoticeFlag.Unknown],
+    ])('parseNoticeFlag(%s)', (src, flag) => {
+        expect(parseNoticeFlag(src)).toBe(flag);
+    });
+});
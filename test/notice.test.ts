@@ -0,0 +1,165 @@
+import {
+    CleanupStatus,
+    getNoticeMultilingual,
+    getNoticeTypeLabel,
+    Language,
+    NetworkError,
+    NoticeFlag,
+    NoticeKind,
+    NoticeType,
+    parseNoticeDetails,
+    SessionExpiredError,
+    TarjouspalveluClient,
+} from '../src';
+import { fakeResponse, fixtureTexts, languages, readFixture } from './fixtures';
+
+describe.each(languages)('%s', (language) => {
+    const texts = fixtureTexts[language];
+
+    test('parseNoticeDetails', () => {
+        const notice = parseNoticeDetails(
+            12345,
+            readFixture(language, 'notice-processing'),
+            readFixture(language, 'notice-details'),
+            readFixture(language, 'notice-attachments')
+        );
+
+        expect(notice).toMatchObject({
+            id: 12345,
+            kind: NoticeKind.Contract,
+            customId: 'HEL 2021-010',
+            unit: texts.unit,
+            title: texts.notices[0],
+            published: new Date('2021-02-28T22:00:00.000Z'),
+            deadline: new Date('2021-03-15T10:00:00.000Z'),
+            deadlineHasTime: true,
+            flags: [NoticeFlag.EuThreshold],
+            types: [NoticeType.Services, NoticeType.ContractNotice],
+            originalTypes: texts.types,
+            procedure: texts.procedure,
+            partialTendersAccepted: true,
+            alternativeTendersAccepted: false,
+            reservedForWorkCenters: null,
+            selectionCriteria: texts.selectionCriteria,
+            attachments: [
+                {
+                    fileName: 'Tarjouspyynto.pdf',
+                    fileUuid: '11111111-2222-3333-4444-555555555555',
+                },
+                {
+                    fileName: 'Hinnoittelu.xlsx',
+                    fileUuid: '66666666-7777-8888-9999-000000000000',
+                },
+            ],
+            links: ['https://www.hel.fi/'],
+        });
+
+        expect(notice.descriptionMarkdown).toContain('- HEL 2021-010');
+    });
+
+    test.each([
+        [NoticeType.ContractAwardNotice, NoticeKind.Award],
+        [NoticeType.PriorInformationNotice, NoticeKind.PriorInformation],
+    ])('parseNoticeDetails of a %s', (type, kind) => {
+        // The same notice with another type label
+        const processing = readFixture(language, 'notice-processing').replace(
+            texts.types[1],
+            getNoticeTypeLabel(type, language)
+        );
+
+        const notice = parseNoticeDetails(
+            12345,
+            processing,
+            readFixture(language, 'notice-details'),
+            readFixture(language, 'notice-attachments')
+        );
+
+        expect(notice.kind).toBe(kind);
+        expect(notice.types).toEqual([NoticeType.Services, type]);
+        expect(notice).not.toHaveProperty('selectionCriteria');
+    });
+
+    test('parseNoticeDetails of an award notice', () => {
+        const processing = readFixture(language, 'notice-processing').replace(
+            texts.types[1],
+            getNoticeTypeLabel(NoticeType.ContractAwardNotice, language)
+        );
+
+        const award = parseNoticeDetails(
+            12347,
+            processing,
+            readFixture(language, 'notice-award-details'),
+            readFixture(language, 'notice-attachments')
+        );
+
+        expect(award).toMatchObject({
+            kind: NoticeKind.Award,
+            customId: 'HEL 2021-012',
+            procedure: texts.procedure,
+            winner: 'Kouluruoka Oy',
+            value: '250 000 EUR',
+            deadline: null,
+        });
+
+        // The details of a contract notice show neither
+        const withoutWinner = parseNoticeDetails(
+            12345,
+            processing,
+            readFixture(language, 'notice-details'),
+            readFixture(language, 'notice-attachments')
+        );
+
+        expect(withoutWinner).toHaveProperty('winner', undefined);
+        expect(withoutWinner).toHaveProperty('value', undefined);
+    });
+});
+
+describe('getNoticeMultilingual', () => {
+    test('keeps the error when restoring the language fails too', async () => {
+        const languagesSet: string[] = [];
+
+        const client = new TarjouspalveluClient({
+            retry: false,
+            transport: async ({ method, url, data }) => {
+                // The notices page has the language, the form for changing it and no tenders
+                if (
+                    method === 'GET' &&
+                    (url.includes('tarjouspyynnot.aspx') ||
+                        url.includes('TarjouspyynnonTarjoukset'))
+                )
+                    return fakeResponse(
+                        200,
+                        readFixture(Language.Fi, 'notices')
+                    );
+
+                if (method === 'POST' && url.includes('tarjouspyynnot.aspx')) {
+                    languagesSet.push(data ?? '');
+
+                    // Setting English works, but restoring Finnish doesn't
+                    return languagesSet.length === 1
+                        ? fakeResponse(302, '', {
+                              'set-cookie':
+                                  'tarjouspalvelu.fi=culture=en-GB&Expires=0; path=/',
+                          })
+                        : fakeResponse(500);
+                }
+
+                return fakeResponse(500); // The notice pages fail
+            },
+        });
+
+        const error = await getNoticeMultilingual(
+            13,
+            12345,
+            { uuid: 'uuid', id: 'id', token: 'token' },
+            [Language.En],
+            true,
+            client
+        ).catch((error) => error);
+
+        expect(error).toBeInstanceOf(NetworkError);
+        expect(error.cleanup).toEqual({ status: CleanupStatus.NotFound });
+        expect(error.restoreError).toBeInstanceOf(SessionExpiredError);
+        expect(languagesSet).toHaveLength(2);
+    });
+});
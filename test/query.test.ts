@@ -0,0 +1,189 @@
+import {
+    Company,
+    InvalidQueryError,
+    Language,
+    matchesNoticeQuery,
+    Notice,
+    NoticeFlag,
+    NoticeQuery,
+    NoticeQueryBuilder,
+    NoticeType,
+    parseNoticesPage,
+    queryNotices,
+} from '../src';
+import { readFixture } from './fixtures';
+
+const page = parseNoticesPage(readFixture(Language.Fi, 'notices'));
+
+// The two listed notices, and one of another unit without a deadline
+const notices: Notice[] = [
+    ...page.notices,
+    {
+        ...page.notices[0],
+        id: 12347,
+        unit: 'Hämeenlinnan kaupunki',
+        title: 'Hämeenlinnan katujen kunnossapito',
+        shortDescription: undefined,
+        flags: [NoticeFlag.National],
+        types: [NoticeType.Works],
+        deadline: null,
+        deadlineHasTime: null,
+        originalDeadline: null,
+    },
+];
+
+const ids = (query: NoticeQuery) =>
+    queryNotices(notices, query).map(({ notice }) => notice.id);
+
+describe('queryNotices', () => {
+    test('keyword', () => {
+        expect(ids({ keyword: 'koulujen ruoka' })).toEqual([12345]);
+        expect(ids({ keyword: 'RUOKA koulujen' })).toEqual([12345]);
+        expect(ids({ keyword: 'hameenlinnan' })).toEqual([12347]);
+
+        // The short description is searched too
+        expect(ids({ keyword: 'pienhankinta' })).toEqual([12346]);
+        expect(ids({ keyword: 'koulujen pienhankinta' })).toEqual([]);
+    });
+
+    test('units', () => {
+        expect(ids({ units: ['hameenlinna'] })).toEqual([12347]);
+        expect(ids({ units: ['Helsingin', 'Espoon'] })).toEqual([12345, 12346]);
+        expect(ids({ units: [] })).toEqual([12345, 12346, 12347]);
+    });
+
+    test('flags and types', () => {
+        expect(
+            ids({ flags: [NoticeFlag.SmallProcurement, NoticeFlag.National] })
+        ).toEqual([12346, 12347]);
+        expect(ids({ types: [NoticeType.Supplies] })).toEqual([12346]);
+        expect(
+            ids({ flags: [NoticeFlag.National], types: [NoticeType.Services] })
+        ).toEqual([]);
+    });
+
+    test('isBeingCorrected and hasDeadline', () => {
+        expect(ids({ isBeingCorrected: true })).toEqual([12346]);
+        expect(ids({ isBeingCorrected: false })).toEqual([12345, 12347]);
+        expect(ids({ hasDeadline: false })).toEqual([12347]);
+        expect(ids({ hasDeadline: true })).toEqual([12345, 12346]);
+    });
+
+    test('deadline range', () => {
+        expect(ids({ deadlineFrom: '2021-03-20T00:00:00.000Z' })).toEqual([
+            12346,
+        ]);
+        expect(ids({ deadlineTo: '2021-03-20T00:00:00.000Z' })).toEqual([
+            12345,
+        ]);
+
+        // The ends of the range are included
+        expect(
+            ids({
+                deadlineFrom: '2021-03-15T10:00:00.000Z',
+                deadlineTo: '2021-03-31T21:00:00.000Z',
+            })
+        ).toEqual([12345, 12346]);
+
+        // An empty end is left out
+        expect(ids({ deadlineFrom: '' })).toEqual([12345, 12346, 12347]);
+    });
+
+    test('sortByDeadline keeps the notices without a deadline last', () => {
+        expect(ids({ sortByDeadline: 'desc' })).toEqual([12346, 12345, 12347]);
+        expect(ids({ sortByDeadline: 'asc' })).toEqual([12345, 12346, 12347]);
+    });
+
+    test('the notices of many companies', () => {
+        const company: Company = {
+            id: 13,
+            slug: 'helsinki',
+            name: 'Helsingin kaupunki',
+            logo: undefined,
+        };
+
+        const matches = queryNotices(
+            [
+                { company, notices: page },
+                { company, notices: undefined },
+            ],
+            { keyword: 'ruoka' }
+        );
+
+        expect(matches).toEqual([{ notice: page.notices[0], company }]);
+    });
+
+    test.each([
+        ['deadlineFrom', 'tomorrow'],
+        ['deadlineTo', '2021-02-30T25:00:00.000Z'],
+        ['deadlineTo', 1616000000000],
+    ] as const)('an invalid %s %s is an error', (field, value) => {
+        const query = { [field]: value } as NoticeQuery;
+
+        let error: InvalidQueryError | undefined;
+
+        try {
+            queryNotices(notices, query);
+        } catch (queryError) {
+            error = queryError;
+        }
+
+        expect(error).toBeInstanceOf(InvalidQueryError);
+        expect(error).toMatchObject({ field, value });
+
+        // Even when there is nothing to match, and when matching a single notice
+        expect(() => queryNotices([], query)).toThrow(InvalidQueryError);
+        expect(() => matchesNoticeQuery(notices[0], query)).toThrow(
+            InvalidQueryError
+        );
+    });
+});
+
+describe('NoticeQueryBuilder', () => {
+    test('builds a plain query that can be stored as JSON', () => {
+        const builder = new NoticeQueryBuilder()
+            .keyword('ruoka')
+            .units('Helsingin')
+            .flags(NoticeFlag.EuThreshold)
+            .types(NoticeType.Services)
+            .beingCorrected(false)
+            .hasDeadline()
+            .deadlineBetween(new Date('2021-03-01T00:00:00.000Z'))
+            .sortByDeadline();
+
+        expect(builder.build()).toEqual({
+            keyword: 'ruoka',
+            units: ['Helsingin'],
+            flags: [NoticeFlag.EuThreshold],
+            types: [NoticeType.Services],
+            isBeingCorrected: false,
+            hasDeadline: true,
+            deadlineFrom: '2021-03-01T00:00:00.000Z',
+            sortByDeadline: 'asc',
+        });
+
+        const restored = NoticeQueryBuilder.from(
+            JSON.parse(JSON.stringify(builder))
+        );
+
+        expect(restored.build()).toEqual(builder.build());
+        expect(restored.run(notices).map(({ notice }) => notice.id)).toEqual([
+            12345,
+        ]);
+        expect(restored.matches(notices[1])).toBe(false);
+    });
+
+    test('an invalid deadline is an error', () => {
+        const invalid = new Date('not a date');
+
+        expect(() => new NoticeQueryBuilder().deadlineBetween(invalid)).toThrow(
+            InvalidQueryError
+        );
+        expect(() =>
+            new NoticeQueryBuilder().deadlineBetween(undefined, invalid)
+        ).toThrow(InvalidQueryError);
+        expect(() =>
+            NoticeQueryBuilder.from({ deadlineTo: 'next week' })
+        ).toThrow(InvalidQueryError);
+    });
+});
@@ -0,0 +1,31 @@
+import { parseSupplierRegisterDetails } from '../src';
+import { fixtureTexts, languages, readFixture } from './fixtures';
+
+describe.each(languages)('%s', (language) => {
+    const texts = fixtureTexts[language];
+
+    test('parseSupplierRegisterDetails', () => {
+        const register = parseSupplierRegisterDetails(
+            501,
+            readFixture(language, 'supplier-register')
+        );
+
+        expect(register).toMatchObject({
+            id: 501,
+            customId: 'HEL KJ-001',
+            unit: texts.unit,
+            title: texts.supplierRegisters[0],
+            published: new Date('2021-02-28T22:00:00.000Z'),
+            validUntil: new Date('2025-12-31T14:00:00.000Z'),
+            attachments: [
+                {
+                    fileName: 'Kelpuuttamisehdot.pdf',
+                    fileUuid: 'ffffffff-1111-2222-3333-444444444444',
+                },
+            ],
+            links: ['https://www.hel.fi/kelpuuttaminen'],
+        });
+
+        expect(register.descriptionText).toBeTruthy();
+    });
+});
@@ -0,0 +1,164 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { CompanyRegistry, Language, TarjouspalveluClient } from '../src';
+import { fakeResponse, readFixture } from './fixtures';
+
+// A fake site with the companies page, that resolves the slugs of other companies from a list, and counts the requests
+const fakeSite = () => {
+    const site = {
+        companiesPage: readFixture(Language.Fi, 'companies'),
+        slugs: { espoo: 49, vantaa: 92 } as Record<string, number>,
+        requests: 0,
+    };
+
+    const client = new TarjouspalveluClient({
+        retry: false,
+        transport: async ({ url }) => {
+            site.requests++;
+
+            if (url.endsWith('/Default/Index'))
+                return fakeResponse(200, site.companiesPage);
+
+            const id = site.slugs[url.split('/').pop()?.toLowerCase() ?? ''];
+
+            return fakeResponse(302, '', {
+                location: id
+                    ? `/tarjouspyynnot.aspx?p=${id}&g=uuid`
+                    : '/Default/Index',
+            });
+        },
+    });
+
+    return { site, client };
+};
+
+describe('CompanyRegistry', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'tarjouspalvelu-'));
+    });
+
+    afterEach(async () => {
+        for (const file of await fs.readdir(directory))
+            await fs.unlink(path.join(directory, file));
+
+        await fs.rmdir(directory);
+    });
+
+    test('finds the companies by slug and ID after seeding once', async () => {
+        const { site, client } = fakeSite();
+        const registry = new CompanyRegistry({ client });
+
+        expect(registry.updated).toBeNull();
+
+        const [helsinki, hansel] = await Promise.all([
+            registry.find(' Helsinki'),
+            registry.find(90),
+        ]);
+
+        expect(site.requests).toBe(1);
+        expect(registry.updated).toBeInstanceOf(Date);
+        expect(helsinki).toMatchObject({
+            id: 13,
+            slug: 'helsinki',
+            name: 'Helsingin kaupunki',
+            logo: undefined,
+        });
+        expect(hansel?.slug).toBe('hansel');
+
+        // The companies missing from the list are known too
+        expect(await registry.find('hanki')).toMatchObject({ id: 279 });
+
+        expect(await registry.find('espoo')).toBeUndefined();
+        expect(await registry.idToSlug(13)).toBe('helsinki');
+        expect(await registry.idToSlug(49)).toBeUndefined();
+        expect(site.requests).toBe(1);
+    });
+
+    test('resolves unknown slugs once and remembers them', async () => {
+        const { site, client } = fakeSite();
+        const registry = new CompanyRegistry({ client });
+
+        expect(await registry.slugToId('helsinki')).toBe(13);
+        expect(site.requests).toBe(1);
+
+        expect(await registry.slugToId('Espoo')).toBe(49);
+        expect(await registry.slugToId('espoo')).toBe(49);
+        expect(site.requests).toBe(2);
+
+        expect(await registry.idToSlug(49)).toBe('espoo');
+        expect(await registry.getCompanies()).toHaveLength(4);
+    });
+
+    test('refresh tells which companies were added, renamed and removed', async () => {
+        const { site, client } = fakeSite();
+        const registry = new CompanyRegistry({ client });
+
+        await registry.slugToId('vantaa');
+
+        site.companiesPage = site.companiesPage
+            .replace(
+                '<a href="https://tarjouspalvelu.fi/helsinki"><img src="/Default/Image/13" alt="" /></a>',
+                '<a href="https://tarjouspalvelu.fi/vantaa"><img src="/Default/Image/92" alt="" /></a>'
+            )
+            .replace('Helsingin kaupunki', 'Vantaan kaupunki')
+            .replace(
+                'https://tarjouspalvelu.fi/hansel',
+                'https://tarjouspalvelu.fi/hansel-oy'
+            );
+
+        const changes = await registry.refresh();
+
+        expect(changes.added).toEqual([
+            expect.objectContaining({
+                id: 92,
+                slug: 'vantaa',
+                name: 'Vantaan kaupunki',
+            }),
+        ]);
+        expect(changes.renamed).toEqual([
+            {
+                company: expect.objectContaining({ id: 90, slug: 'hansel-oy' }),
+                previous: expect.objectContaining({ id: 90, slug: 'hansel' }),
+            },
+        ]);
+        expect(changes.removed).toEqual([
+            expect.objectContaining({ id: 13, slug: 'helsinki' }),
+        ]);
+
+        // The learned company is listed now, so it's not kept twice
+        const companies = await registry.getCompanies();
+
+        expect(companies.filter((company) => company.id === 92)).toEqual([
+            changes.added[0],
+        ]);
+        expect(await registry.find('helsinki')).toBeUndefined();
+
+        // Nothing changes when the list stays the same
+        expect(await registry.refresh()).toEqual({
+            added: [],
+            renamed: [],
+            removed: [],
+        });
+    });
+
+    test('keeps the companies in a file', async () => {
+        const file = path.join(directory, 'companies.json');
+        const { site, client } = fakeSite();
+
+        await new CompanyRegistry({ path: file, client }).slugToId('espoo');
+
+        expect(site.requests).toBe(2);
+
+        // A new registry with the same file needs no requests
+        const restored = new CompanyRegistry({ path: file, client });
+
+        expect(await restored.slugToId('espoo')).toBe(49);
+        expect(await restored.idToSlug(90)).toBe('hansel');
+        expect(restored.updated).toBeInstanceOf(Date);
+        expect(site.requests).toBe(2);
+    });
+});
@@ -0,0 +1,218 @@
+import {
+    ClientRequest,
+    defaultRetryPolicy,
+    NetworkError,
+    RetryPolicy,
+    retryDelay,
+    TarjouspalveluClient,
+    TransportResponse,
+} from '../src';
+import { fakeResponse } from './fixtures';
+
+// A client whose transport answers with the given responses in order, and counts the requests
+const sequenceClient = (
+    responses: (TransportResponse | Error)[],
+    retry: RetryPolicy | false = { minDelay: 1, jitter: false }
+) => {
+    const sent: string[] = [];
+
+    const client = new TarjouspalveluClient({
+        retry,
+        transport: async ({ method }) => {
+            const response =
+                responses[Math.min(sent.length, responses.length - 1)];
+            sent.push(method);
+
+            if (response instanceof Error) throw response;
+            return response;
+        },
+    });
+
+    return { client, sent };
+};
+
+const request: ClientRequest = { path: '/tarjouspyynnot.aspx?p=13' };
+
+describe('retryDelay', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    test('backs off exponentially up to the maximum delay', () => {
+        const policy = { ...defaultRetryPolicy, jitter: false };
+
+        expect(retryDelay(policy, 0)).toBe(500);
+        expect(retryDelay(policy, 1)).toBe(1000);
+        expect(retryDelay(policy, 2)).toBe(2000);
+        expect(retryDelay(policy, 10)).toBe(30 * 1000);
+    });
+
+    test('jitter spreads the delay between half and the full delay', () => {
+        const random = jest.spyOn(Math, 'random');
+
+        random.mockReturnValue(0);
+        expect(retryDelay(defaultRetryPolicy, 1)).toBe(500);
+
+        random.mockReturnValue(0.999);
+        expect(retryDelay(defaultRetryPolicy, 1)).toBeCloseTo(999.5);
+        expect(retryDelay(defaultRetryPolicy, 1)).toBeLessThan(1000);
+    });
+
+    test('Retry-After in seconds and as a date', () => {
+        const policy = { ...defaultRetryPolicy, jitter: false };
+        const now = Date.parse('2021-03-01T12:00:00.000Z');
+
+        jest.spyOn(Date, 'now').mockReturnValue(now);
+
+        const retryAfter = (value: string) =>
+            retryDelay(
+                policy,
+                0,
+                fakeResponse(503, '', { 'retry-after': value })
+            );
+
+        expect(retryAfter('3')).toBe(3000);
+        expect(retryAfter('Mon, 01 Mar 2021 12:00:05 GMT')).toBe(5000);
+
+        // A date in the past retries at once, and the delay is never longer than the maximum
+        expect(retryAfter('Mon, 01 Mar 2021 11:00:00 GMT')).toBe(0);
+        expect(retryAfter('3600')).toBe(30 * 1000);
+
+        // An unparsable header and a policy that ignores it use the backoff
+        expect(retryAfter('soon')).toBe(500);
+        expect(
+            retryDelay(
+                { ...policy, respectRetryAfter: false },
+                0,
+                fakeResponse(503, '', { 'retry-after': '3' })
+            )
+        ).toBe(500);
+    });
+});
+
+describe('retrying requests', () => {
+    test('GET requests are retried after server errors and network errors', async () => {
+        const { client, sent } = sequenceClient([
+            fakeResponse(503),
+            new Error('socket hang up'),
+            fakeResponse(200, 'ok'),
+        ]);
+
+        const response = await client.requestRaw(request);
+
+        expect(response.status).toBe(200);
+        expect(sent).toHaveLength(3);
+    });
+
+    test('the last response is returned when the retries run out', async () => {
+        const { client, sent } = sequenceClient([fakeResponse(500)]);
+
+        const response = await client.requestRaw(request);
+
+        expect(response.status).toBe(500);
+        expect(sent).toHaveLength(1 + defaultRetryPolicy.retries);
+    });
+
+    test('statuses that are not in the policy are not retried', async () => {
+        const { client, sent } = sequenceClient([fakeResponse(404)]);
+
+        expect((await client.requestRaw(request)).status).toBe(404);
+        expect(sent).toHaveLength(1);
+    });
+
+    test('POST requests are not retried', async () => {
+        const { client, sent } = sequenceClient([
+            fakeResponse(503),
+            fakeResponse(200),
+        ]);
+
+        const response = await client.requestRaw({
+            ...request,
+            method: 'POST',
+        });
+
+        expect(response.status).toBe(503);
+        expect(sent).toEqual(['POST']);
+
+        const failing = sequenceClient([new Error('socket hang up')]);
+
+        await expect(
+            failing.client.requestRaw({ ...request, method: 'POST' })
+        ).rejects.toBeInstanceOf(NetworkError);
+        expect(failing.sent).toHaveLength(1);
+    });
+
+    test('POST requests are retried when the policy allows them', async () => {
+        const { client, sent } = sequenceClient(
+            [fakeResponse(503), fakeResponse(200)],
+            { minDelay: 1, methods: ['GET', 'POST'] }
+        );
+
+        const response = await client.requestRaw({
+            ...request,
+            method: 'POST',
+        });
+
+        expect(response.status).toBe(200);
+        expect(sent).toEqual(['POST', 'POST']);
+    });
+
+    test('Retry-After is waited instead of the backoff', async () => {
+        const { client, sent } = sequenceClient(
+            [fakeResponse(429, '', { 'Retry-After': '0' }), fakeResponse(200)],
+            { minDelay: 60 * 1000 }
+        );
+
+        const started = Date.now();
+
+        expect((await client.requestRaw(request)).status).toBe(200);
+        expect(sent).toHaveLength(2);
+        expect(Date.now() - started).toBeLessThan(5000);
+    });
+
+    test('a request overrides the policy of the client', async () => {
+        // A client that doesn't retry, with a request that does
+        const retried = sequenceClient(
+            [fakeResponse(503), fakeResponse(200)],
+            false
+        );
+
+        const response = await retried.client.requestRaw({
+            ...request,
+            retry: { retries: 1, minDelay: 1 },
+        });
+
+        expect(response.status).toBe(200);
+        expect(retried.sent).toHaveLength(2);
+
+        // A client that retries, with a request that doesn't
+        const single = sequenceClient([fakeResponse(503), fakeResponse(200)]);
+
+        expect(
+            (await single.client.requestRaw({ ...request, retry: false }))
+                .status
+        ).toBe(503);
+        expect(single.sent).toHaveLength(1);
+
+        // A request with fewer retries than the client
+        const fewer = sequenceClient([fakeResponse(503)]);
+
+        await fewer.client.requestRaw({ ...request, retry: { retries: 1 } });
+
+        expect(fewer.sent).toHaveLength(2);
+    });
+
+    test('an idempotent POST request is retried', async () => {
+        const { client, sent } = sequenceClient([
+            fakeResponse(503),
+            fakeResponse(200),
+        ]);
+
+        const response = await client.requestRaw({
+            ...request,
+            method: 'POST',
+            idempotent: true,
+        });
+
+        expect(response.status).toBe(200);
+        expect(sent).toEqual(['POST', 'POST']);
+    });
+});
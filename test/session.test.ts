@@ -0,0 +1,138 @@
+import {
+    deserializeSession,
+    isSessionValid,
+    Language,
+    NetworkError,
+    ParseError,
+    serializeSession,
+    Session,
+    TarjouspalveluClient,
+    TransportResponse,
+} from '../src';
+import { fakeResponse, readFixture } from './fixtures';
+
+// The notices page with the login form that is shown to sessions that aren't logged in
+const loginPage = readFixture(Language.Fi, 'notices').replace(
+    '</form>',
+    '<input name="ctl00$header$LoginView1$LoginCtrl$UserName" type="text" /></form>'
+);
+
+describe('serializeSession', () => {
+    test('deserializeSession restores the session with its dates', () => {
+        const session: Session = {
+            uuid: 'uuid',
+            id: 'id',
+            token: 'token',
+            companyId: 13,
+            language: Language.Sv,
+            username: 'user',
+            createdAt: new Date('2021-03-01T10:00:00.000Z'),
+            lastUsed: new Date('2021-03-01T10:15:30.500Z'),
+        };
+
+        const restored = deserializeSession(serializeSession(session));
+
+        expect(restored).toEqual(session);
+        expect(restored.createdAt).toBeInstanceOf(Date);
+        expect(restored.lastUsed?.getTime()).toBe(session.lastUsed?.getTime());
+    });
+
+    test('a session without the optional fields', () => {
+        const restored = deserializeSession(
+            serializeSession({ uuid: 'uuid', id: 'id' })
+        );
+
+        expect(restored).toEqual({ uuid: 'uuid', id: 'id' });
+        expect(restored.createdAt).toBeUndefined();
+    });
+
+    test('invalid fields are dropped', () => {
+        expect(
+            deserializeSession(
+                JSON.stringify({
+                    uuid: 'uuid',
+                    id: 'id',
+                    companyId: '13',
+                    language: 'de-DE',
+                    createdAt: 'yesterday',
+                })
+            )
+        ).toEqual({ uuid: 'uuid', id: 'id' });
+    });
+
+    test.each([
+        'not json',
+        'null',
+        '{"uuid":"uuid"}',
+        '{"uuid":"uuid","id":"id","token":1}',
+    ])('rejects %s', (serialized) => {
+        expect(() => deserializeSession(serialized)).toThrow(ParseError);
+    });
+});
+
+describe('isSessionValid', () => {
+    // A client whose transport answers with the given response, and remembers the requested URLs
+    const checkWith = async (response: TransportResponse, session: Session) => {
+        const urls: string[] = [];
+        const client = new TarjouspalveluClient({
+            retry: false,
+            transport: async ({ url }) => {
+                urls.push(url);
+                return response;
+            },
+        });
+
+        return { valid: await isSessionValid(session, client), urls };
+    };
+
+    test('an expired session is redirected away', async () => {
+        const lastUsed = new Date('2021-03-01T10:00:00.000Z');
+        const session = { uuid: 'uuid', id: 'id', lastUsed };
+
+        const { valid } = await checkWith(
+            fakeResponse(302, '', { location: '/Default/Index' }),
+            session
+        );
+
+        expect(valid).toBe(false);
+
+        // A redirect doesn't count as using the session
+        expect(session.lastUsed).toBe(lastUsed);
+    });
+
+    test('a session that gets the page is valid', async () => {
+        const lastUsed = new Date('2021-03-01T10:00:00.000Z');
+        const session = { uuid: 'uuid', id: 'id', companyId: 13, lastUsed };
+
+        const { valid, urls } = await checkWith(
+            fakeResponse(200, loginPage),
+            session
+        );
+
+        expect(valid).toBe(true);
+        expect(urls[0]).toContain('p=13&g=uuid');
+        expect(session.lastUsed.getTime()).toBeGreaterThan(lastUsed.getTime());
+    });
+
+    test('a logged in session is valid only while it is logged in', async () => {
+        const session = { uuid: 'uuid', id: 'id', token: 'token' };
+
+        expect(
+            (await checkWith(fakeResponse(200, loginPage), session)).valid
+        ).toBe(false);
+        expect(
+            (
+                await checkWith(
+                    fakeResponse(200, readFixture(Language.Fi, 'notices')),
+                    session
+                )
+            ).valid
+        ).toBe(true);
+    });
+
+    test('other responses are errors', async () => {
+        await expect(
+            checkWith(fakeResponse(503), { uuid: 'uuid', id: 'id' })
+        ).rejects.toBeInstanceOf(NetworkError);
+    });
+});
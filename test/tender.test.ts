@@ -0,0 +1,271 @@
+import {
+    CleanupStatus,
+    getDynamicPurchasingSystem,
+    getNotice,
+    getTenders,
+    Language,
+    NetworkError,
+    parseTenderList,
+    parseTenders,
+    Session,
+    TarjouspalveluClient,
+    TenderCleanup,
+    TenderCleanupBatch,
+    TenderRemovalError,
+    TenderStatus,
+} from '../src';
+import { fakeResponse, languages, readFixture } from './fixtures';
+
+describe.each(languages)('%s', (language) => {
+    test('parseTenderList', () => {
+        expect(parseTenderList(readFixture(language, 'tenders'))).toEqual([
+            'a1b2c3',
+        ]);
+    });
+
+    test('parseTenders', () => {
+        expect(
+            parseTenders(readFixture(language, 'tenders'), 13, 12345)
+        ).toMatchObject([
+            {
+                companyId: 13,
+                noticeId: 12345,
+                tenderId: 'a1b2c3',
+                status: TenderStatus.Draft,
+                modified: new Date('2021-03-10T12:32:00.000Z'),
+            },
+            {
+                tenderId: 'd4e5f6',
+                status: TenderStatus.Submitted,
+                modified: new Date('2021-03-12T07:15:00.000Z'),
+            },
+        ]);
+    });
+});
+
+describe('getTenders', () => {
+    test('checks the given notices with the listed ones', async () => {
+        const tenderPages: string[] = [];
+
+        const client = new TarjouspalveluClient({
+            transport: async ({ url }) => {
+                let page = 'notices'; // Has no tenders, so it works as an empty tenders page too
+
+                if (url.includes('KelpuuttamisJarjestelmatLista'))
+                    page = 'supplier-registers';
+                else if (url.includes('TarjouspyynnonTarjoukset')) {
+                    tenderPages.push(url);
+                    if (url.endsWith('tpID=999')) page = 'tenders';
+                }
+
+                return {
+                    status: 200,
+                    headers: {},
+                    data: Buffer.from(readFixture(Language.Fi, page)),
+                };
+            },
+        });
+
+        const tenders = await getTenders(
+            13,
+            { uuid: 'uuid', id: 'id', token: 'token' },
+            [999, 12345],
+            client
+        );
+
+        // The listed notices and DPSs, and the closed notice that was given
+        expect(tenderPages).toHaveLength(5);
+        expect(
+            tenders.map(({ noticeId, tenderId }) => [noticeId, tenderId])
+        ).toEqual([
+            [999, 'a1b2c3'],
+            [999, 'd4e5f6'],
+        ]);
+    });
+});
+
+describe('tender cleanup', () => {
+    const session: Session = { uuid: 'uuid', id: 'id', token: 'token' };
+
+    // A fake site whose detail pages, tender list and tender removal work or fail as the test says
+    const fakeSite = (options: {
+        fixture: 'notice' | 'dps';
+        pagesFail?: boolean;
+        tender?: 'listed' | 'missing' | 'unavailable';
+        removalFails?: boolean;
+    }) => {
+        const removed: string[] = [];
+
+        const client = new TarjouspalveluClient({
+            retry: false,
+            transport: async ({ url, data }) => {
+                if (url.includes('TarjouspyynnonTarjoukset')) {
+                    if (options.tender === 'unavailable')
+                        return fakeResponse(500);
+
+                    // The notices page has no tenders
+                    return fakeResponse(
+                        200,
+                        readFixture(
+                            Language.Fi,
+                            options.tender === 'missing' ? 'notices' : 'tenders'
+                        )
+                    );
+                }
+
+                if (url.includes('PoistaKeskenerainenTarjous')) {
+                    removed.push(data ?? '');
+
+                    return fakeResponse(
+                        200,
+                        `{"error":${options.removalFails ? 'true' : 'false'}}`
+                    );
+                }
+
+                if (options.pagesFail) return fakeResponse(500);
+
+                const page = url.includes('tpKasittely')
+                    ? 'processing'
+                    : url.includes('tpReferal')
+                    ? 'details'
+                    : 'attachments';
+
+                return fakeResponse(
+                    200,
+                    readFixture(Language.Fi, `${options.fixture}-${page}`)
+                );
+            },
+        });
+
+        return { client, removed };
+    };
+
+    const getters: [
+        string,
+        'notice' | 'dps',
+        (
+            companyId: number,
+            noticeId: number,
+            session: Session,
+            cleanup: boolean | TenderCleanupBatch,
+            client: TarjouspalveluClient
+        ) => Promise<{ cleanup?: TenderCleanup }>
+    ][] = [
+        ['getNotice', 'notice', getNotice],
+        ['getDynamicPurchasingSystem', 'dps', getDynamicPurchasingSystem],
+    ];
+
+    describe.each(getters)('%s', (_, fixture, getDetails) => {
+        test.each([
+            [
+                'removed',
+                { tender: 'listed' },
+                { status: CleanupStatus.Removed, tenderId: 'a1b2c3' },
+            ],
+            [
+                'notFound',
+                { tender: 'missing' },
+                { status: CleanupStatus.NotFound },
+            ],
+            [
+                'failed',
+                { tender: 'listed', removalFails: true },
+                {
+                    status: CleanupStatus.Failed,
+                    tenderId: 'a1b2c3',
+                    error: expect.any(TenderRemovalError),
+                },
+            ],
+            [
+                'failed without the tender list',
+                { tender: 'unavailable' },
+                {
+                    status: CleanupStatus.Failed,
+                    tenderId: undefined,
+                    error: expect.any(NetworkError),
+                },
+            ],
+        ] as const)('%s', async (_, site, cleanup) => {
+            // The cleanup of the details that were got
+            const working = fakeSite({ fixture, ...site });
+            const details = await getDetails(
+                13,
+                12345,
+                session,
+                true,
+                working.client
+            );
+
+            expect(details.cleanup).toEqual(cleanup);
+
+            // The cleanup of the error when getting the details failed
+            const failing = fakeSite({ fixture, pagesFail: true, ...site });
+            const error = await getDetails(
+                13,
+                12345,
+                session,
+                true,
+                failing.client
+            ).catch((error) => error);
+
+            expect(error).toBeInstanceOf(NetworkError);
+            expect(error.cleanup).toEqual(cleanup);
+        });
+
+        test('skipped', async () => {
+            const { client, removed } = fakeSite({ fixture, tender: 'listed' });
+
+            const details = await getDetails(13, 12345, session, false, client);
+
+            expect(details.cleanup).toEqual({ status: CleanupStatus.Skipped });
+            expect(removed).toEqual([]);
+        });
+    });
+
+    test('TenderCleanupBatch removes the tenders when flushed', async () => {
+        const { client, removed } = fakeSite({
+            fixture: 'notice',
+            tender: 'listed',
+        });
+        const batch = new TenderCleanupBatch();
+
+        const notice = await getNotice(13, 12345, session, batch, client);
+        await getNotice(13, 12345, session, batch, client);
+
+        const failing = fakeSite({ fixture: 'dps', pagesFail: true });
+        const error = await getDynamicPurchasingSystem(
+            13,
+            1001,
+            session,
+            batch,
+            failing.client
+        ).catch((error) => error);
+
+        // Nothing is removed before flushing, and the same notice is removed only once
+        expect(notice.cleanup).toEqual({ status: CleanupStatus.Deferred });
+        expect(error.cleanup).toEqual({ status: CleanupStatus.Deferred });
+        expect(removed).toEqual([]);
+        expect(batch.size).toBe(2);
+
+        const results = await batch.flush();
+
+        expect(results).toEqual([
+            {
+                companyId: 13,
+                noticeId: 12345,
+                status: CleanupStatus.Removed,
+                tenderId: 'a1b2c3',
+            },
+            {
+                companyId: 13,
+                noticeId: 1001,
+                status: CleanupStatus.Removed,
+                tenderId: 'a1b2c3',
+            },
+        ]);
+        expect(removed).toEqual(['tarjousid=a1b2c3&palvelu=13']);
+        expect(failing.removed).toEqual(['tarjousid=a1b2c3&palvelu=13']);
+        expect(batch.size).toBe(0);
+        expect(await batch.flush()).toEqual([]);
+    });
+});
@@ -0,0 +1,81 @@
+import { Language, ParseError, parseDate } from '../src';
+
+// The dates of the 15th of January and of June in the format of each language
+const days: [Language, string, string][] = [
+    [Language.Fi, '15.1.2021', '15.6.2021'],
+    [Language.Sv, '2021-01-15', '2021-06-15'],
+    [Language.En, '15/01/2021', '15/06/2021'],
+    [Language.Da, '15-01-2021', '15-06-2021'],
+];
+
+describe.each(days)('parseDate in %s', (language, winter, summer) => {
+    test.each([
+        // Helsinki time, which is UTC+02:00 in the winter and UTC+03:00 in the summer
+        ['', '12:00', '2021-01-15T10:00:00.000Z', '2021-06-15T09:00:00.000Z'],
+        [
+            '',
+            '12:00:30',
+            '2021-01-15T10:00:30.000Z',
+            '2021-06-15T09:00:30.000Z',
+        ],
+        ['', '', '2021-01-14T22:00:00.000Z', '2021-06-14T21:00:00.000Z'],
+        // A bare offset is the offset of the date
+        [
+            ' (UTC+02:00)',
+            '12:00',
+            '2021-01-15T10:00:00.000Z',
+            '2021-06-15T10:00:00.000Z',
+        ],
+        [
+            ' (UTC)',
+            '12:00',
+            '2021-01-15T12:00:00.000Z',
+            '2021-06-15T12:00:00.000Z',
+        ],
+        // An offset with the zone name is only the standard offset of the zone
+        [
+            ' (UTC+02:00) Helsinki, Kyiv, Riga, Sofia, Tallinn, Vilnius',
+            '12:00',
+            '2021-01-15T10:00:00.000Z',
+            '2021-06-15T09:00:00.000Z',
+        ],
+    ])('"%s" at "%s"', (zone, time, winterDate, summerDate) => {
+        const text = (day: string) => `${day}${time && ` ${time}`}${zone}`;
+
+        expect(parseDate(text(winter), language)).toMatchObject({
+            date: new Date(winterDate),
+            hasTime: time.length !== 0,
+        });
+        expect(parseDate(text(summer), language).date).toEqual(
+            new Date(summerDate)
+        );
+    });
+});
+
+describe('parseDate', () => {
+    test('the UTC offset of the text', () => {
+        expect(parseDate('15.6.2021 12:00', Language.Fi).utcOffset).toBeNull();
+        expect(
+            parseDate('15.6.2021 12:00 (UTC-03:30)', Language.Fi)
+        ).toMatchObject({
+            date: new Date('2021-06-15T15:30:00.000Z'),
+            utcOffset: -210,
+        });
+    });
+
+    test.each(['1.2.21 12:00', '21-02-01', 'tomorrow', ''])(
+        'rejects "%s"',
+        (text) => {
+            let error: ParseError | undefined;
+
+            try {
+                parseDate(text, Language.Fi, undefined, '#valDueDate');
+            } catch (parseError) {
+                error = parseError;
+            }
+
+            expect(error).toBeInstanceOf(ParseError);
+            expect(error?.selector).toBe('#valDueDate');
+        }
+    );
+});
@@ -0,0 +1,261 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import {
+    FileSnapshotStore,
+    Language,
+    MemorySnapshotStore,
+    NetworkError,
+    NoticeSnapshot,
+    NoticeWatcher,
+    NoticeWatcherEvents,
+    NoticeWatchEvent,
+    TarjouspalveluClient,
+} from '../src';
+import { fakeResponse, readFixture } from './fixtures';
+
+// The pages that the fake site answers with, changed by the tests between the polls
+let pages: { notices: string | null; supplierRegisters: string | null };
+
+const client = new TarjouspalveluClient({
+    retry: false,
+    transport: async ({ url }) => {
+        const page = url.includes('KelpuuttamisJarjestelmatLista')
+            ? pages.supplierRegisters
+            : pages.notices;
+
+        return page === null ? fakeResponse(500) : fakeResponse(200, page);
+    },
+});
+
+const newWatcher = (emitInitial = false) =>
+    new NoticeWatcher({
+        companyIds: [13],
+        session: { uuid: 'uuid', id: 'id' },
+        store: new MemorySnapshotStore(),
+        emitInitial,
+        client,
+    });
+
+type ChangeEvent = Exclude<keyof NoticeWatcherEvents, 'polled' | 'failed'>;
+
+// Record the change events of a watcher as the event name, the type and the id of each item
+const recordEvents = (watcher: NoticeWatcher) => {
+    const events: [ChangeEvent, string, number][] = [];
+    const changes: ChangeEvent[] = [
+        'added',
+        'removed',
+        'corrected',
+        'deadlineChanged',
+        'titleChanged',
+    ];
+
+    for (const change of changes)
+        watcher.on(change, (event: NoticeWatchEvent) =>
+            events.push([change, event.type, event.item.id])
+        );
+
+    return events;
+};
+
+beforeEach(() => {
+    pages = {
+        notices: readFixture(Language.Fi, 'notices'),
+        supplierRegisters: readFixture(Language.Fi, 'supplier-registers'),
+    };
+});
+
+describe('NoticeWatcher', () => {
+    test('the first poll emits added only with emitInitial', async () => {
+        const quiet = newWatcher();
+        const quietEvents = recordEvents(quiet);
+
+        const snapshot = await quiet.poll();
+
+        expect(quietEvents).toEqual([]);
+        expect(snapshot.companies[13].notices).toHaveLength(2);
+        expect(await quiet.store.load()).toBe(snapshot);
+
+        const initial = newWatcher(true);
+        const initialEvents = recordEvents(initial);
+
+        await initial.poll();
+
+        expect(initialEvents).toEqual([
+            ['added', 'notice', 12345],
+            ['added', 'notice', 12346],
+            ['added', 'dynamicPurchasingSystem', 1001],
+            ['added', 'dynamicPurchasingSystem', 1002],
+            ['added', 'supplierRegister', 501],
+            ['added', 'supplierRegister', 502],
+        ]);
+    });
+
+    test('emits the changes since the previous poll', async () => {
+        const watcher = newWatcher();
+        const events = recordEvents(watcher);
+
+        await watcher.poll();
+
+        const previous: NoticeWatchEvent[] = [];
+        watcher.on('deadlineChanged', (event) => previous.push(event));
+
+        pages = {
+            notices: (pages.notices ?? '')
+                // A notice is removed
+                .replace(/<tr>\s*<td>HEL 2021-011<\/td>[\s\S]*?<\/tr>/, '')
+                // A notice is renamed
+                .replace(
+                    'Koulujen ruokapalvelut',
+                    'Koulujen ja päiväkotien ruokapalvelut'
+                )
+                // A dynamic purchasing system gets a new deadline
+                .replace('31.12.2023 23:59', '31.1.2024 23:59')
+                // The correction of a dynamic purchasing system is done
+                .replace(
+                    '<div class="punainenfontti">Ilmoitusta korjataan</div> Tulkkauspalvelut.',
+                    'Tulkkauspalvelut.'
+                ),
+            // A supplier register is replaced with a new one
+            supplierRegisters: (pages.supplierRegisters ?? '').replace(
+                'id=502',
+                'id=503'
+            ),
+        };
+
+        await watcher.poll();
+
+        expect(events).toEqual([
+            ['titleChanged', 'notice', 12345],
+            ['removed', 'notice', 12346],
+            ['deadlineChanged', 'dynamicPurchasingSystem', 1001],
+            ['corrected', 'dynamicPurchasingSystem', 1002],
+            ['added', 'supplierRegister', 503],
+            ['removed', 'supplierRegister', 502],
+        ]);
+
+        expect(previous[0].previous).toMatchObject({
+            deadline: '2023-12-31T21:59:00.000Z',
+            originalDeadline: '31.12.2023 23:59 (UTC+02:00)',
+        });
+
+        // Nothing changes when the pages stay the same
+        await watcher.poll();
+
+        expect(events).toHaveLength(6);
+    });
+
+    test('keeps the previous snapshot of a company when its poll fails', async () => {
+        const watcher = newWatcher();
+        const events = recordEvents(watcher);
+        const failures: [Error, number | undefined][] = [];
+
+        watcher.on('failed', (error, companyId) =>
+            failures.push([error, companyId])
+        );
+
+        const first = await watcher.poll();
+
+        pages.notices = null;
+
+        const failed = await watcher.poll();
+
+        expect(failures).toHaveLength(1);
+        expect(failures[0][0]).toBeInstanceOf(NetworkError);
+        expect(failures[0][1]).toBe(13);
+        expect(failed.companies[13]).toEqual(first.companies[13]);
+
+        // Nothing is removed or added back when the company loads again
+        pages.notices = readFixture(Language.Fi, 'notices');
+
+        await watcher.poll();
+
+        expect(events).toEqual([]);
+    });
+
+    test('keeps the previous supplier registers when only they fail to load', async () => {
+        const watcher = newWatcher();
+        const events = recordEvents(watcher);
+        const failures: Error[] = [];
+
+        watcher.on('failed', (error) => failures.push(error));
+
+        const first = await watcher.poll();
+
+        pages.supplierRegisters = null;
+        pages.notices = (pages.notices ?? '').replace(
+            'Koulujen ruokapalvelut',
+            'Koulujen ja päiväkotien ruokapalvelut'
+        );
+
+        const failed = await watcher.poll();
+
+        expect(failures).toHaveLength(1);
+        expect(events).toEqual([['titleChanged', 'notice', 12345]]);
+        expect(failed.companies[13].supplierRegisters).toEqual(
+            first.companies[13].supplierRegisters
+        );
+    });
+});
+
+describe('FileSnapshotStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'tarjouspalvelu-'));
+    });
+
+    afterEach(async () => {
+        for (const file of await fs.readdir(directory))
+            await fs.unlink(path.join(directory, file));
+
+        await fs.rmdir(directory);
+    });
+
+    test('saves and loads the snapshot', async () => {
+        const store = new FileSnapshotStore(
+            path.join(directory, 'snapshot.json')
+        );
+
+        expect(await store.load()).toBeUndefined();
+
+        const watcher = new NoticeWatcher({
+            companyIds: [13],
+            session: { uuid: 'uuid', id: 'id' },
+            store,
+            client,
+        });
+
+        const snapshot = await watcher.poll();
+
+        expect(await store.load()).toEqual(snapshot);
+
+        // A new watcher with the same file continues from the saved snapshot
+        const restarted = new NoticeWatcher({
+            companyIds: [13],
+            session: { uuid: 'uuid', id: 'id' },
+            store: new FileSnapshotStore(store.path),
+            client,
+        });
+        const events = recordEvents(restarted);
+
+        await restarted.poll();
+
+        expect(events).toEqual([]);
+    });
+
+    test('a file that is not a snapshot is an error', async () => {
+        const file = path.join(directory, 'snapshot.json');
+        await fs.writeFile(file, 'not json');
+
+        await expect(new FileSnapshotStore(file).load()).rejects.toBeInstanceOf(
+            SyntaxError
+        );
+
+        const snapshot: NoticeSnapshot = { updated: '', companies: {} };
+
+        await new FileSnapshotStore(file).save(snapshot);
+        expect(await new FileSnapshotStore(file).load()).toEqual(snapshot);
+    });
+});